@@ -2,8 +2,17 @@ import React from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
+import { BackendProvider } from './src/context/BackendContext';
 import { PlayerProvider } from './src/context/PlayerContext';
-import { HomeScreen, LobbyScreen, GameScreen } from './src/screens';
+import { supabaseBackend } from './src/lib/supabase';
+import {
+  HomeScreen,
+  LobbyScreen,
+  GameScreen,
+  PublicLobbiesScreen,
+  LocalSetupScreen,
+  LocalGameScreen,
+} from './src/screens';
 import { RootStackParamList } from './src/types';
 import { colors } from './src/lib/theme';
 
@@ -11,22 +20,27 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
 
 export default function App() {
   return (
-    <PlayerProvider>
-      <NavigationContainer>
-        <StatusBar style="dark" />
-        <Stack.Navigator
-          initialRouteName="Home"
-          screenOptions={{
-            headerShown: false,
-            contentStyle: { backgroundColor: colors.background },
-            animation: 'slide_from_right',
-          }}
-        >
-          <Stack.Screen name="Home" component={HomeScreen} />
-          <Stack.Screen name="Lobby" component={LobbyScreen} />
-          <Stack.Screen name="Game" component={GameScreen} />
-        </Stack.Navigator>
-      </NavigationContainer>
-    </PlayerProvider>
+    <BackendProvider backend={supabaseBackend}>
+      <PlayerProvider>
+        <NavigationContainer>
+          <StatusBar style="dark" />
+          <Stack.Navigator
+            initialRouteName="Home"
+            screenOptions={{
+              headerShown: false,
+              contentStyle: { backgroundColor: colors.background },
+              animation: 'slide_from_right',
+            }}
+          >
+            <Stack.Screen name="Home" component={HomeScreen} />
+            <Stack.Screen name="Lobby" component={LobbyScreen} />
+            <Stack.Screen name="Game" component={GameScreen} />
+            <Stack.Screen name="PublicLobbies" component={PublicLobbiesScreen} />
+            <Stack.Screen name="LocalSetup" component={LocalSetupScreen} />
+            <Stack.Screen name="LocalGame" component={LocalGameScreen} />
+          </Stack.Navigator>
+        </NavigationContainer>
+      </PlayerProvider>
+    </BackendProvider>
   );
 }
@@ -0,0 +1,111 @@
+/**
+ * Headless game simulator
+ * Plays complete games between bot strategies using only the game logic
+ * (no React Native, no Supabase) and prints aggregate stats.
+ *
+ * Usage:
+ *   npm run simulate -- --games 1000 --players greedy,lookahead,random,random
+ *   npm run simulate -- --games 500 --players greedy,greedy --scheme classic --format csv
+ *
+ * Options:
+ *   --games <n>        games to play (default 100)
+ *   --players <list>   comma-separated strategy per seat: random, greedy, lookahead
+ *                      (default greedy,greedy,random,random)
+ *   --seed <n>         seed of the first game; game i uses seed + i (default random)
+ *   --scheme <name>    pig values: sixty_six or classic (default sixty_six)
+ *   --rules <json>     other rule overrides, e.g. '{"targetScore":33}'
+ *   --format <fmt>     json or csv (default json)
+ */
+import { BotDifficulty, PigScheme, RuleSet } from '../src/types';
+import { BOT_DIFFICULTIES } from '../src/utils/bots';
+import { PIG_SCHEMES, assertValidRules, withDefaultRules } from '../src/utils/rules';
+import { generateSeed } from '../src/utils/random';
+import { runSimulation, SimulationSummary } from '../src/utils/simulation';
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const [key, inlineValue] = argv[i].replace(/^--/, '').split('=');
+    args[key] = inlineValue ?? argv[++i] ?? '';
+  }
+  return args;
+};
+
+const fail = (message: string): never => {
+  process.stderr.write(`${message}\n`);
+  process.exit(1);
+};
+
+const toCsv = (summary: SimulationSummary): string => {
+  const rows: (string | number)[][] = [
+    ['section', 'key', 'value'],
+    ['overall', 'games', summary.games],
+    ['overall', 'failed_games', summary.failedGames],
+    ['overall', 'average_rounds', summary.averageRounds],
+    ['overall', 'average_pigs_per_round', summary.averagePigsPerRound],
+    ['overall', 'decided_by_doubles_rate', summary.decidedByDoublesRate],
+  ];
+
+  for (const seat of summary.seats) {
+    const section = `seat_${seat.seat}_${seat.strategy}`;
+    rows.push([section, 'wins', seat.wins]);
+    rows.push([section, 'win_rate', seat.winRate]);
+    rows.push([section, 'average_score', seat.averageScore]);
+  }
+
+  for (const [strategy, stats] of Object.entries(summary.strategies)) {
+    rows.push([`strategy_${strategy}`, 'seats', stats.seats]);
+    rows.push([`strategy_${strategy}`, 'win_rate', stats.winRate]);
+  }
+
+  return rows.map((row) => row.join(',')).join('\n');
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+
+  const games = Number(args.games ?? 100);
+  if (!Number.isInteger(games) || games < 1) {
+    fail(`Invalid --games: ${args.games}`);
+  }
+
+  const strategies = (args.players ?? 'greedy,greedy,random,random').split(',') as BotDifficulty[];
+  const unknown = strategies.find((strategy) => !Object.hasOwn(BOT_DIFFICULTIES, strategy));
+  if (unknown !== undefined) {
+    fail(`Unknown strategy "${unknown}" (use ${Object.keys(BOT_DIFFICULTIES).join(', ')})`);
+  }
+
+  const scheme = (args.scheme ?? 'sixty_six') as PigScheme;
+  if (!Object.hasOwn(PIG_SCHEMES, scheme)) {
+    fail(`Unknown pig scheme "${scheme}" (use ${Object.keys(PIG_SCHEMES).join(', ')})`);
+  }
+
+  let overrides: Partial<RuleSet> = {};
+  try {
+    overrides = args.rules ? JSON.parse(args.rules) : {};
+  } catch {
+    fail(`--rules is not valid JSON: ${args.rules}`);
+  }
+
+  const seed = args.seed !== undefined ? Number(args.seed) : generateSeed();
+  if (!Number.isInteger(seed) || args.seed?.trim() === '') {
+    fail(`Invalid --seed: ${args.seed} (use a whole number)`);
+  }
+
+  const rules = withDefaultRules({ ...overrides, pigScheme: scheme });
+  try {
+    assertValidRules(rules);
+  } catch (error) {
+    fail((error as Error).message);
+  }
+
+  const summary = runSimulation({ strategies, rules }, games, seed);
+
+  if (args.format === 'csv') {
+    process.stdout.write(`${toCsv(summary)}\n`);
+  } else {
+    process.stdout.write(`${JSON.stringify({ seed, rules, ...summary }, null, 2)}\n`);
+  }
+};
+
+main();
@@ -0,0 +1,253 @@
+/**
+ * SQL test runner
+ * Loads supabase-schema.sql into an embedded Postgres (PGlite, no server or Docker needed)
+ * and runs each supabase-tests/*.test.sql file against a fresh copy of it.
+ * A test file is plain SQL: DO blocks and the helpers in supabase-tests/setup.sql, which
+ * raise an exception when a check fails.
+ *
+ * It then checks that the SQL engine plays the same game as src/utils/gameLogic.ts: from
+ * the same seed and moves, start_game and resolve_turn must deal the same hands and leave the
+ * same rows and scores as initializeGame and resolveTurn.
+ *
+ * Usage:
+ *   npm run test:sql
+ *   npm run test:sql -- policies      (only tests whose name contains "policies")
+ */
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import assert from 'node:assert/strict';
+import { PGlite } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import {
+  Card,
+  GameState,
+  Player,
+  RowChoices,
+  RuleSet,
+  TurnSelections,
+  TurnState,
+} from '../src/types';
+import { initializeGame, resolveTurn } from '../src/utils/gameLogic';
+import { DEFAULT_RULES, withDefaultRules } from '../src/utils/rules';
+
+const ROOT = join(__dirname, '..');
+const TESTS_DIR = join(ROOT, 'supabase-tests');
+
+const read = (path: string) => readFileSync(path, 'utf8');
+
+// A new database with the schema loaded
+const createDatabase = async (): Promise<PGlite> => {
+  const db = await PGlite.create({ extensions: { uuid_ossp } });
+  await db.exec(read(join(TESTS_DIR, 'setup.sql')));
+  await db.exec(read(join(ROOT, 'supabase-schema.sql')));
+  return db;
+};
+
+// Run a test on a new database; returns the failure message, or null when it passed
+const runTest = async (test: (db: PGlite) => Promise<void>): Promise<string | null> => {
+  let db: PGlite | null = null;
+  try {
+    db = await createDatabase();
+    await test(db);
+    return null;
+  } catch (error) {
+    // Postgres says where it failed (the DO block or function line) in `where`
+    const { message, where } = error as { message?: string; where?: string };
+    return [message ?? String(error), where].filter(Boolean).join('\n  ');
+  } finally {
+    await db?.close();
+  }
+};
+
+const runTestFile = (file: string) => async (db: PGlite) => {
+  await db.exec(read(join(TESTS_DIR, file)));
+};
+
+// Games played on both engines: how many players, and the lobby's rules
+// The reveal countdown is off, so the SQL engine places cards as soon as all are picked
+const PARITY_GAMES: { players: number; rules: Partial<RuleSet> }[] = [
+  { players: 3, rules: {} },
+  { players: 10, rules: {} },
+  {
+    players: 5,
+    rules: { pigScheme: 'classic', rowCount: 3, maxRowLength: 4, targetScore: 33 },
+  },
+];
+
+// Which card (by position in hand) and which row each seat plays on a turn: varied enough
+// that rows fill up and low cards make players take a row
+const parityCard = (turn: number, seat: number, hand: Card[]) =>
+  hand[(turn * 7 + seat * 3) % hand.length];
+const parityRow = (turn: number, seat: number, rules: RuleSet) => (turn + seat) % rules.rowCount;
+
+interface SqlTable {
+  state: GameState;
+  players: { player_id: string; score: number }[];
+  hands: Record<string, Card[]>;
+}
+
+// Play one game on the SQL engine, as the host playing for every seat (all bots), and
+// replay each move on resolveTurn, checking after every step that both engines agree
+const checkEngineParity = (game: (typeof PARITY_GAMES)[number]) => async (db: PGlite) => {
+  const one = async <T>(sql: string, params: unknown[] = []): Promise<T> => {
+    return (await db.query<T>(sql, params)).rows[0];
+  };
+  const signIn = (name: string | null) => db.query('SELECT tests.sign_in($1)', [name]);
+
+  await signIn('alice');
+  const rules = { ...game.rules, turnTimer: { revealSeconds: 0 } };
+  await db.query(
+    `INSERT INTO lobbies (code, host_id, rules) VALUES ('PARITY', tests.user_id('alice'), $1)`,
+    [JSON.stringify(rules)]
+  );
+  const { id: lobbyId } = await one<{ id: string }>(`SELECT tests.lobby_id('PARITY') AS id`);
+  await db.query(
+    `INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready)
+     VALUES ($1, tests.user_id('alice'), 'Alice', true)`,
+    [lobbyId]
+  );
+  await db.query(`UPDATE lobbies SET max_players = $2 WHERE id = $1`, [lobbyId, game.players]);
+  for (let bot = 1; bot < game.players; bot++) {
+    await db.query(
+      `INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready, is_bot, bot_difficulty)
+       VALUES ($1, $2, $3, true, true, 'random')`,
+      [lobbyId, `bot_${bot}`, `Bot ${bot}`]
+    );
+  }
+  await db.query('SELECT start_game($1)', [lobbyId]);
+
+  const readTable = async (): Promise<SqlTable> => {
+    const { game_state: state } = await one<{ game_state: GameState }>(
+      'SELECT game_state FROM lobbies WHERE id = $1',
+      [lobbyId]
+    );
+    const players = (
+      await db.query<{ player_id: string; score: number }>(
+        'SELECT player_id, score FROM lobby_players WHERE lobby_id = $1 ORDER BY joined_at',
+        [lobbyId]
+      )
+    ).rows;
+    const hands = (
+      await db.query<{ player_id: string; hand: Card[] }>(
+        'SELECT player_id, hand FROM player_hands WHERE lobby_id = $1',
+        [lobbyId]
+      )
+    ).rows;
+    return {
+      state,
+      players,
+      hands: Object.fromEntries(hands.map(({ player_id, hand }) => [player_id, hand])),
+    };
+  };
+
+  // The seed is kept from clients until the game is over
+  await signIn(null);
+  const { seed } = await one<{ seed: number }>(
+    'SELECT seed FROM lobby_secrets WHERE lobby_id = $1',
+    [lobbyId]
+  );
+  await signIn('alice');
+
+  let table = await readTable();
+  const expectedRules = withDefaultRules({
+    ...game.rules,
+    turnTimer: { ...DEFAULT_RULES.turnTimer, revealSeconds: 0 },
+  });
+  assert.deepEqual(table.state.rules, expectedRules, 'both engines use the same rules');
+
+  const dealt = initializeGame(game.players, table.state.rules, seed);
+  let local: TurnState = {
+    gameState: dealt.gameState,
+    players: table.players.map(
+      ({ player_id: id }, seat): Player => ({
+        id,
+        nickname: seat === 0 ? 'Alice' : `Bot ${seat}`,
+        score: 0,
+        hand: dealt.hands[seat],
+        isHost: seat === 0,
+        isReady: true,
+        selectedCard: null,
+      })
+    ),
+  };
+
+  const assertSameTable = (step: string) => {
+    const { gameState } = local;
+    assert.equal(table.state.phase, gameState.phase, `${step}: phase`);
+    assert.equal(table.state.round, gameState.round, `${step}: round`);
+    assert.equal(table.state.handSize, gameState.handSize, `${step}: hand size`);
+    assert.deepEqual(table.state.tableRows, gameState.tableRows, `${step}: rows`);
+    assert.equal(
+      table.state.pendingRowSelection?.playerId ?? null,
+      gameState.pendingRowSelection?.playerId ?? null,
+      `${step}: who takes a row`
+    );
+    for (const [seat, player] of local.players.entries()) {
+      assert.equal(table.players[seat].score, player.score, `${step}: ${player.id}'s score`);
+      assert.deepEqual(table.hands[player.id], player.hand, `${step}: ${player.id}'s hand`);
+    }
+  };
+  assertSameTable('deal');
+
+  for (let turn = 0; local.gameState.phase !== 'finished'; turn++) {
+    assert.ok(turn < 1000, 'the game finishes');
+    const step = `turn ${turn + 1}`;
+
+    const selections: TurnSelections = {};
+    for (const [seat, player] of local.players.entries()) {
+      selections[player.id] = parityCard(turn, seat, player.hand);
+      await db.query('SELECT submit_selection($1, $2, $3)', [
+        lobbyId,
+        player.id,
+        JSON.stringify(selections[player.id]),
+      ]);
+    }
+    let result = resolveTurn(local, selections);
+    table = await readTable();
+
+    const rowChoices: RowChoices = {};
+    while (result.state.gameState.phase === 'row_selection') {
+      local = result.state;
+      assertSameTable(`${step}, before a row is taken`);
+      const chooser = local.gameState.pendingRowSelection!.playerId;
+      const seat = local.players.findIndex((player) => player.id === chooser);
+      rowChoices[chooser] = parityRow(turn, seat, local.gameState.rules);
+      await db.query('SELECT choose_row($1, $2, $3)', [lobbyId, chooser, rowChoices[chooser]]);
+      result = resolveTurn(local, selections, rowChoices);
+      table = await readTable();
+    }
+
+    local = result.state;
+    assertSameTable(step);
+  }
+};
+
+const main = async () => {
+  const filter = process.argv[2] ?? '';
+  const tests = [
+    ...readdirSync(TESTS_DIR)
+      .filter((file) => file.endsWith('.test.sql'))
+      .sort()
+      .map((file) => ({ name: file, test: runTestFile(file) })),
+    ...PARITY_GAMES.map((game) => ({
+      name: `engine parity: ${game.players} players, ${JSON.stringify(game.rules)}`,
+      test: checkEngineParity(game),
+    })),
+  ].filter(({ name }) => name.includes(filter));
+
+  let failed = 0;
+  for (const { name, test } of tests) {
+    const failure = await runTest(test);
+    if (failure) {
+      failed++;
+      process.stdout.write(`not ok - ${name}\n  ${failure}\n`);
+    } else {
+      process.stdout.write(`ok - ${name}\n`);
+    }
+  }
+
+  process.stdout.write(`\n${tests.length - failed} of ${tests.length} SQL tests passed\n`);
+  process.exit(failed > 0 || tests.length === 0 ? 1 : 0);
+};
+
+main();
@@ -3,6 +3,9 @@ import { TouchableOpacity, View, Text, StyleSheet } from 'react-native';
 import { colors, borderRadius, spacing, fontSize, fontWeight, shadows } from '../lib/theme';
 import { Card } from '../types';
 
+// Most pig heads drawn on a card before switching to a count
+const MAX_PIG_ICONS = 3;
+
 interface GameCardProps {
   card: Card;
   onPress?: () => void;
@@ -20,8 +23,8 @@ export const GameCard: React.FC<GameCardProps> = ({
   size = 'md',
   faceDown = false,
 }) => {
-  const isSpecialCard = card.pigs === -11;
-  const isMultiplePigs = card.pigs > 1 && card.pigs !== -11;
+  const isSpecialCard = card.pigs < 0;
+  const isHeavyCard = card.pigs >= 5;
 
   const sizeStyles = {
     sm: { width: 45, height: 65 },
@@ -44,14 +47,26 @@ export const GameCard: React.FC<GameCardProps> = ({
             🐷✨
           </Text>
           <Text style={[styles.specialPigText, { fontSize: fontSizes[size].pig - 2 }]}>
-            -11
+            {card.pigs}
+          </Text>
+        </View>
+      );
+    }
+
+    if (card.pigs > MAX_PIG_ICONS) {
+      // Too many heads to fit on a card - show one pig with a count
+      return (
+        <View style={styles.pigsContainer}>
+          <Text style={[styles.pigEmoji, { fontSize: fontSizes[size].pig }]}>🐷</Text>
+          <Text style={[styles.pigCountText, { fontSize: fontSizes[size].pig }]}>
+            ×{card.pigs}
           </Text>
         </View>
       );
     }
 
     const pigs = [];
-    for (let i = 0; i < Math.min(card.pigs, 7); i++) {
+    for (let i = 0; i < card.pigs; i++) {
       pigs.push(
         <Text key={i} style={[styles.pigEmoji, { fontSize: fontSizes[size].pig }]}>
           🐷
@@ -91,6 +106,7 @@ export const GameCard: React.FC<GameCardProps> = ({
         sizeStyles[size],
         selected && styles.selected,
         isSpecialCard && styles.specialCard,
+        isHeavyCard && styles.heavyCard,
         disabled && styles.disabled,
       ]}
     >
@@ -99,6 +115,7 @@ export const GameCard: React.FC<GameCardProps> = ({
           styles.cardNumber,
           { fontSize: fontSizes[size].number },
           isSpecialCard && styles.specialNumber,
+          isHeavyCard && styles.heavyNumber,
         ]}
       >
         {card.number}
@@ -136,6 +153,10 @@ const styles = StyleSheet.create({
     backgroundColor: colors.accent,
     borderColor: colors.accentDark,
   },
+  heavyCard: {
+    backgroundColor: colors.error + '20',
+    borderColor: colors.error,
+  },
   disabled: {
     opacity: 0.5,
   },
@@ -146,6 +167,9 @@ const styles = StyleSheet.create({
   specialNumber: {
     color: colors.primaryDark,
   },
+  heavyNumber: {
+    color: colors.error,
+  },
   pigsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -155,6 +179,10 @@ const styles = StyleSheet.create({
   pigEmoji: {
     marginHorizontal: 1,
   },
+  pigCountText: {
+    fontWeight: fontWeight.bold,
+    color: colors.textPrimary,
+  },
   specialPigText: {
     color: colors.success,
     fontWeight: fontWeight.bold,
@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, ScrollView } from 'react-native';
+import { colors, borderRadius, spacing, fontSize, fontWeight, shadows } from '../lib/theme';
+import { LobbySettings } from '../lib/backend';
+import { CardTimeoutPolicy, Lobby, PigScheme, RowTimeoutPolicy } from '../types';
+import { PIG_SCHEMES, withDefaultRules } from '../utils/rules';
+import { MAX_LOBBY_PLAYERS, MIN_LOBBY_PLAYERS } from '../utils/matchmaking';
+import {
+  CARD_POLICY_LABELS,
+  REVEAL_SECONDS_OPTIONS,
+  ROW_POLICY_LABELS,
+  TARGET_SCORE_OPTIONS,
+  TURN_TIMER_OPTIONS,
+  formatSeconds,
+} from '../utils/lobbySettings';
+import { Button } from './Button';
+import { Input } from './Input';
+
+interface LobbySettingsSheetProps {
+  visible: boolean;
+  lobby: Lobby;
+  // Seats already taken; the seat limit can't go below this
+  playerCount: number;
+  // Each change is saved as soon as it is picked
+  onChange: (settings: Partial<LobbySettings>) => void;
+  onSetPassword: (password: string | null) => void;
+  onClose: () => void;
+}
+
+export const LobbySettingsSheet: React.FC<LobbySettingsSheetProps> = ({
+  visible,
+  lobby,
+  playerCount,
+  onChange,
+  onSetPassword,
+  onClose,
+}) => {
+  const [password, setPassword] = useState('');
+  const rules = withDefaultRules(lobby.rules);
+  const { turnTimer } = rules;
+  const minPlayers = Math.max(MIN_LOBBY_PLAYERS, playerCount);
+
+  const handleSetPassword = () => {
+    onSetPassword(password);
+    setPassword('');
+  };
+
+  // One row of choices, with the current one highlighted
+  const renderOptions = <T,>(
+    options: T[],
+    isSelected: (option: T) => boolean,
+    label: (option: T) => string,
+    onSelect: (option: T) => void
+  ) => (
+    <View style={styles.optionRow}>
+      {options.map((option) => (
+        <Button
+          key={label(option)}
+          title={label(option)}
+          onPress={() => onSelect(option)}
+          variant={isSelected(option) ? 'secondary' : 'outline'}
+          size="sm"
+          style={styles.optionButton}
+        />
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>⚙️ Lobby Settings</Text>
+          <ScrollView style={styles.scroll} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>Max players</Text>
+            <View style={styles.stepperRow}>
+              <Button
+                title="−"
+                onPress={() => onChange({ max_players: lobby.max_players - 1 })}
+                variant="outline"
+                size="sm"
+                disabled={lobby.max_players <= minPlayers}
+              />
+              <Text style={styles.stepperValue}>{lobby.max_players}</Text>
+              <Button
+                title="+"
+                onPress={() => onChange({ max_players: lobby.max_players + 1 })}
+                variant="outline"
+                size="sm"
+                disabled={lobby.max_players >= MAX_LOBBY_PLAYERS}
+              />
+            </View>
+
+            <Text style={styles.label}>Game ends at</Text>
+            {renderOptions(
+              TARGET_SCORE_OPTIONS,
+              (score) => score === rules.targetScore,
+              (score) => `${score} pigs`,
+              (score) => onChange({ rules: { ...rules, targetScore: score } })
+            )}
+
+            <Text style={styles.label}>Pig values</Text>
+            {renderOptions(
+              Object.keys(PIG_SCHEMES) as PigScheme[],
+              (scheme) => scheme === rules.pigScheme,
+              (scheme) => PIG_SCHEMES[scheme].name,
+              (pigScheme) => onChange({ rules: { ...rules, pigScheme } })
+            )}
+
+            <Text style={styles.label}>Turn timer</Text>
+            {renderOptions(
+              TURN_TIMER_OPTIONS,
+              (timer) => timer.selectionSeconds === turnTimer.selectionSeconds,
+              (timer) => formatSeconds(timer.selectionSeconds),
+              (timer) => onChange({ rules: { ...rules, turnTimer: { ...turnTimer, ...timer } } })
+            )}
+
+            {turnTimer.selectionSeconds > 0 && (
+              <>
+                <Text style={styles.label}>Card played when time runs out</Text>
+                {renderOptions(
+                  Object.keys(CARD_POLICY_LABELS) as CardTimeoutPolicy[],
+                  (policy) => policy === turnTimer.cardPolicy,
+                  (policy) => CARD_POLICY_LABELS[policy],
+                  (cardPolicy) =>
+                    onChange({ rules: { ...rules, turnTimer: { ...turnTimer, cardPolicy } } })
+                )}
+                <Text style={styles.label}>Row taken when time runs out</Text>
+                {renderOptions(
+                  Object.keys(ROW_POLICY_LABELS) as RowTimeoutPolicy[],
+                  (policy) => policy === turnTimer.rowPolicy,
+                  (policy) => ROW_POLICY_LABELS[policy],
+                  (rowPolicy) =>
+                    onChange({ rules: { ...rules, turnTimer: { ...turnTimer, rowPolicy } } })
+                )}
+              </>
+            )}
+
+            <Text style={styles.label}>Reveal countdown</Text>
+            {renderOptions(
+              REVEAL_SECONDS_OPTIONS,
+              (seconds) => seconds === turnTimer.revealSeconds,
+              formatSeconds,
+              (revealSeconds) =>
+                onChange({ rules: { ...rules, turnTimer: { ...turnTimer, revealSeconds } } })
+            )}
+
+            <Text style={styles.label}>Who can find this lobby</Text>
+            {renderOptions(
+              [true, false],
+              (isPublic) => isPublic === lobby.is_public,
+              (isPublic) => (isPublic ? '🌍 Public' : '🔒 Private'),
+              (isPublic) => onChange({ is_public: isPublic })
+            )}
+
+            <Text style={styles.label}>Join password</Text>
+            {lobby.has_password && (
+              <View style={styles.passwordSet}>
+                <Text style={styles.passwordSetText}>A password is set</Text>
+                <Button
+                  title="Remove"
+                  onPress={() => onSetPassword(null)}
+                  variant="ghost"
+                  size="sm"
+                />
+              </View>
+            )}
+            <View style={styles.passwordRow}>
+              <Input
+                value={password}
+                onChangeText={setPassword}
+                placeholder={lobby.has_password ? 'New password' : 'Optional'}
+                maxLength={30}
+                secureTextEntry
+                style={styles.passwordInput}
+              />
+              <Button
+                title={lobby.has_password ? 'Change' : 'Set'}
+                onPress={handleSetPassword}
+                variant="outline"
+                size="md"
+                disabled={password.length === 0}
+                style={styles.passwordButton}
+              />
+            </View>
+          </ScrollView>
+
+          <Button title="Done" onPress={onClose} variant="primary" size="lg" />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: colors.card,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    padding: spacing.lg,
+    maxHeight: '85%',
+    ...shadows.lg,
+  },
+  title: {
+    fontSize: fontSize.xl,
+    fontWeight: fontWeight.bold,
+    color: colors.textPrimary,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  scroll: {
+    marginBottom: spacing.md,
+  },
+  label: {
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.semibold,
+    color: colors.textSecondary,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  optionButton: {
+    minWidth: 64,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  stepperValue: {
+    fontSize: fontSize.lg,
+    fontWeight: fontWeight.bold,
+    color: colors.textPrimary,
+    minWidth: 32,
+    textAlign: 'center',
+  },
+  passwordSet: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  passwordSetText: {
+    fontSize: fontSize.sm,
+    color: colors.success,
+  },
+  passwordRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  passwordInput: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  passwordButton: {
+    marginTop: spacing.xs,
+  },
+});
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal } from 'react-native';
+import { colors, borderRadius, spacing, fontSize, fontWeight, shadows } from '../lib/theme';
+import { Button } from './Button';
+import { Input } from './Input';
+
+interface PasswordPromptProps {
+  // Code of the lobby asking for a password; the prompt shows while this is set
+  lobbyCode: string | null;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+  loading?: boolean;
+}
+
+export const PasswordPrompt: React.FC<PasswordPromptProps> = ({
+  lobbyCode,
+  onSubmit,
+  onCancel,
+  loading = false,
+}) => {
+  const [password, setPassword] = useState('');
+
+  // Start empty for every lobby
+  useEffect(() => {
+    setPassword('');
+  }, [lobbyCode]);
+
+  return (
+    <Modal visible={lobbyCode !== null} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>🔒 Password Needed</Text>
+          <Text style={styles.subtitle}>Lobby {lobbyCode} asks for a password to join.</Text>
+          <Input
+            value={password}
+            onChangeText={setPassword}
+            placeholder="Lobby password"
+            maxLength={30}
+            secureTextEntry
+          />
+          <View style={styles.buttonRow}>
+            <Button
+              title="Cancel"
+              onPress={onCancel}
+              variant="outline"
+              size="md"
+              style={styles.button}
+            />
+            <Button
+              title="Join"
+              onPress={() => onSubmit(password)}
+              variant="primary"
+              size="md"
+              loading={loading}
+              disabled={password.length === 0}
+              style={styles.button}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  content: {
+    backgroundColor: colors.card,
+    borderRadius: borderRadius.lg,
+    padding: spacing.xl,
+    width: '100%',
+    maxWidth: 400,
+    ...shadows.lg,
+  },
+  title: {
+    fontSize: fontSize.xl,
+    fontWeight: fontWeight.bold,
+    color: colors.textPrimary,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  subtitle: {
+    fontSize: fontSize.md,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  button: {
+    flex: 1,
+  },
+});
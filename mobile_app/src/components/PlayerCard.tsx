@@ -1,29 +1,55 @@
 import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { colors, borderRadius, spacing, fontSize, fontWeight, shadows } from '../lib/theme';
+import { formatLastSeen } from '../lib/presence';
+import { PlayerPresence, PresenceStatus } from '../types';
 import { PigIcon } from './PigIcon';
 
+const PRESENCE_LABELS: Record<PresenceStatus, string> = {
+  online: 'Online',
+  away: 'Away',
+  offline: 'Offline',
+};
+
 interface PlayerCardProps {
   nickname: string;
   score: number;
   isHost?: boolean;
+  isBot?: boolean;
   isReady?: boolean;
   isCurrentPlayer?: boolean;
   hasSelectedCard?: boolean;
   compact?: boolean;
+  // Connection state (left out for bots, who are always there)
+  presence?: PlayerPresence;
+  // Opens a menu of actions for this player (e.g. the host's kick and ban)
+  onLongPress?: () => void;
 }
 
 export const PlayerCard: React.FC<PlayerCardProps> = ({
   nickname,
   score,
   isHost = false,
+  isBot = false,
   isReady = false,
   isCurrentPlayer = false,
   hasSelectedCard = false,
   compact = false,
+  presence,
+  onLongPress,
 }) => {
+  const presenceLabel = presence
+    ? presence.status === 'online' || !presence.lastSeenAt
+      ? PRESENCE_LABELS[presence.status]
+      : `${PRESENCE_LABELS[presence.status]} · ${formatLastSeen(presence.lastSeenAt)}`
+    : null;
+
+  const CardWrapper = onLongPress ? TouchableOpacity : View;
+
   return (
-    <View
+    <CardWrapper
+      onLongPress={onLongPress}
+      activeOpacity={0.8}
       style={[
         styles.container,
         isCurrentPlayer && styles.currentPlayer,
@@ -33,6 +59,13 @@ export const PlayerCard: React.FC<PlayerCardProps> = ({
       <View style={styles.header}>
         <View style={styles.nameContainer}>
           {isHost && <Text style={styles.hostBadge}>👑</Text>}
+          {isBot && <Text style={styles.hostBadge}>🤖</Text>}
+          {presence && (
+            <View
+              style={[styles.presenceDot, styles[presence.status]]}
+              accessibilityLabel={presenceLabel ?? undefined}
+            />
+          )}
           <Text style={[styles.nickname, isCurrentPlayer && styles.currentNickname]} numberOfLines={1}>
             {nickname}
           </Text>
@@ -42,12 +75,17 @@ export const PlayerCard: React.FC<PlayerCardProps> = ({
       <View style={styles.scoreContainer}>
         <PigIcon count={score} size="sm" />
       </View>
+      {presenceLabel && !compact && (
+        <Text style={styles.presenceText} numberOfLines={1}>
+          {presenceLabel}
+        </Text>
+      )}
       {isReady && !hasSelectedCard && (
         <View style={styles.readyBadge}>
           <Text style={styles.readyText}>Ready</Text>
         </View>
       )}
-    </View>
+    </CardWrapper>
   );
 };
 
@@ -82,6 +120,26 @@ const styles = StyleSheet.create({
   hostBadge: {
     marginRight: spacing.xs,
   },
+  presenceDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: spacing.xs,
+  },
+  online: {
+    backgroundColor: colors.success,
+  },
+  away: {
+    backgroundColor: colors.warning,
+  },
+  offline: {
+    backgroundColor: colors.textLight,
+  },
+  presenceText: {
+    fontSize: fontSize.xs,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
   nickname: {
     fontSize: fontSize.md,
     fontWeight: fontWeight.semibold,
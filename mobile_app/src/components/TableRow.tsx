@@ -2,8 +2,9 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { colors, borderRadius, spacing, fontSize, shadows } from '../lib/theme';
 import { GameCard } from './GameCard';
-import { TableRow as TableRowType } from '../types';
+import { TableRow as TableRowType, RuleSet } from '../types';
 import { calculateRowPigs } from '../utils/gameLogic';
+import { DEFAULT_RULES } from '../utils/rules';
 
 interface TableRowProps {
   row: TableRowType;
@@ -11,6 +12,7 @@ interface TableRowProps {
   onPress?: () => void;
   selectable?: boolean;
   highlighted?: boolean;
+  rules?: RuleSet;
 }
 
 export const TableRow: React.FC<TableRowProps> = ({
@@ -19,9 +21,10 @@ export const TableRow: React.FC<TableRowProps> = ({
   onPress,
   selectable = false,
   highlighted = false,
+  rules = DEFAULT_RULES,
 }) => {
   const totalPigs = calculateRowPigs(row);
-  const isFull = row.cards.length >= 5;
+  const isFull = row.cards.length >= rules.maxRowLength;
 
   const RowWrapper = selectable ? TouchableOpacity : View;
 
@@ -52,7 +55,7 @@ export const TableRow: React.FC<TableRowProps> = ({
           </View>
         ))}
         {/* Show empty slots */}
-        {Array.from({ length: 5 - row.cards.length }).map((_, index) => (
+        {Array.from({ length: Math.max(rules.maxRowLength - row.cards.length, 0) }).map((_, index) => (
           <View key={`empty-${index}`} style={styles.emptySlot}>
             <Text style={styles.emptySlotText}>•</Text>
           </View>
@@ -1,5 +1,7 @@
 export { Button } from './Button';
 export { Input } from './Input';
+export { LobbySettingsSheet } from './LobbySettingsSheet';
+export { PasswordPrompt } from './PasswordPrompt';
 export { GameCard } from './GameCard';
 export { PigIcon } from './PigIcon';
 export { PlayerCard } from './PlayerCard';
@@ -0,0 +1,20 @@
+import React, { createContext, useContext, ReactNode } from 'react';
+import { GameBackend } from '../lib/backend';
+
+const BackendContext = createContext<GameBackend | undefined>(undefined);
+
+// Gives every screen the backend games are played on (Supabase, or in memory)
+export const BackendProvider: React.FC<{ backend: GameBackend; children: ReactNode }> = ({
+  backend,
+  children,
+}) => {
+  return <BackendContext.Provider value={backend}>{children}</BackendContext.Provider>;
+};
+
+export const useBackend = (): GameBackend => {
+  const context = useContext(BackendContext);
+  if (context === undefined) {
+    throw new Error('useBackend must be used within a BackendProvider');
+  }
+  return context;
+};
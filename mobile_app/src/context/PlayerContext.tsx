@@ -1,22 +1,29 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { generatePlayerId } from '../lib/supabase';
+import { useBackend } from './BackendContext';
 
 interface PlayerContextType {
   playerId: string;
   nickname: string;
   setNickname: (name: string) => Promise<void>;
+  // Code of the lobby or game this player is in, kept across app restarts
+  activeLobbyCode: string | null;
+  setActiveLobbyCode: (code: string | null) => Promise<void>;
   isLoading: boolean;
 }
 
 const PlayerContext = createContext<PlayerContextType | undefined>(undefined);
 
-const PLAYER_ID_KEY = '@66pigs_player_id';
+// Player ID made up on the device before players signed in (player_xxxx)
+const LEGACY_PLAYER_ID_KEY = '@66pigs_player_id';
 const NICKNAME_KEY = '@66pigs_nickname';
+const ACTIVE_LOBBY_KEY = '@66pigs_active_lobby';
 
 export const PlayerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const backend = useBackend();
   const [playerId, setPlayerId] = useState<string>('');
   const [nickname, setNicknameState] = useState<string>('');
+  const [activeLobbyCode, setActiveLobbyCodeState] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -25,19 +32,30 @@ export const PlayerProvider: React.FC<{ children: ReactNode }> = ({ children })
 
   const loadPlayerData = async () => {
     try {
-      // Load or create player ID
-      let storedPlayerId = await AsyncStorage.getItem(PLAYER_ID_KEY);
-      if (!storedPlayerId) {
-        storedPlayerId = generatePlayerId();
-        await AsyncStorage.setItem(PLAYER_ID_KEY, storedPlayerId);
-      }
-      setPlayerId(storedPlayerId);
-
       // Load nickname
       const storedNickname = await AsyncStorage.getItem(NICKNAME_KEY);
       if (storedNickname) {
         setNicknameState(storedNickname);
       }
+
+      // Load the lobby the app was in when it was last closed
+      setActiveLobbyCodeState(await AsyncStorage.getItem(ACTIVE_LOBBY_KEY));
+
+      // The signed-in user's ID is the player ID
+      const userId = await backend.signIn();
+
+      // Carry lobbies joined under an old device-made ID over to the signed-in user
+      const legacyPlayerId = await AsyncStorage.getItem(LEGACY_PLAYER_ID_KEY);
+      if (legacyPlayerId) {
+        try {
+          await backend.claimLegacyPlayerId(legacyPlayerId);
+          await AsyncStorage.removeItem(LEGACY_PLAYER_ID_KEY);
+        } catch (error) {
+          console.error('Error claiming old player ID:', error);
+        }
+      }
+
+      setPlayerId(userId);
     } catch (error) {
       console.error('Error loading player data:', error);
     } finally {
@@ -55,8 +73,24 @@ export const PlayerProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
+  // Stable, so screens can call it from their data-loading callbacks
+  const setActiveLobbyCode = useCallback(async (code: string | null) => {
+    setActiveLobbyCodeState(code);
+    try {
+      if (code) {
+        await AsyncStorage.setItem(ACTIVE_LOBBY_KEY, code);
+      } else {
+        await AsyncStorage.removeItem(ACTIVE_LOBBY_KEY);
+      }
+    } catch (error) {
+      console.error('Error saving active lobby:', error);
+    }
+  }, []);
+
   return (
-    <PlayerContext.Provider value={{ playerId, nickname, setNickname, isLoading }}>
+    <PlayerContext.Provider
+      value={{ playerId, nickname, setNickname, activeLobbyCode, setActiveLobbyCode, isLoading }}
+    >
       {children}
     </PlayerContext.Provider>
   );
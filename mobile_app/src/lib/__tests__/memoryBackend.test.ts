@@ -0,0 +1,343 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameBackend, isStaleStateError } from '../backend';
+import { createInMemoryServer } from '../memoryBackend';
+import { Lobby } from '../../types';
+import { DEFAULT_RULES } from '../../utils/rules';
+
+const LOBBY_CODE = 'TESTME';
+
+// Let realtime notifications (delivered as microtasks) reach their subscribers
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+// A server with a clock the test moves by hand, and one connected client per player
+const setUpTable = async (playerCount: number) => {
+  let clock = Date.parse('2026-01-01T12:00:00Z');
+  const server = createInMemoryServer(() => clock);
+  const clients = new Map<string, GameBackend>();
+  for (let i = 0; i < playerCount; i++) {
+    clients.set(`player-${i}`, server.connect(`player-${i}`));
+  }
+
+  const [hostId, ...guestIds] = [...clients.keys()];
+  const host = clients.get(hostId)!;
+  const lobby = await host.createLobby(LOBBY_CODE, 'Player 0', DEFAULT_RULES, false);
+  await host.updateSettings(lobby.id, { max_players: Math.max(playerCount, 2) });
+  for (const [i, guestId] of guestIds.entries()) {
+    await clients.get(guestId)!.joinLobby(lobby.id, `Player ${i + 1}`);
+  }
+
+  const advanceClock = (ms: number) => {
+    clock += ms;
+  };
+  return { server, clients, host, lobby, advanceClock };
+};
+
+// Play the game out the way the app would, each player on their own client
+// Everyone plays their lowest card and takes the first row; reveals and row choices that
+// go unanswered are moved on by running out the clock. Returns how many turns were played.
+const playToTheEnd = async (
+  clients: Map<string, GameBackend>,
+  lobbyId: string,
+  advanceClock: (ms: number) => void
+): Promise<number> => {
+  const anyClient = clients.values().next().value!;
+  let turns = 0;
+
+  for (let step = 0; step < 5000; step++) {
+    const { lobby } = (await anyClient.fetchLobby(LOBBY_CODE))!;
+    const state = lobby.game_state!;
+
+    if (state.phase === 'finished') return turns;
+
+    if (state.phase === 'selecting') {
+      turns++;
+      for (const client of clients.values()) {
+        const snapshot = (await client.fetchLobby(LOBBY_CODE))!;
+        for (const hand of snapshot.hands) {
+          if (hand.selected_card || hand.hand.length === 0) continue;
+          const lowest = [...hand.hand].sort((a, b) => a.number - b.number)[0];
+          await client.submitSelection(
+            lobbyId,
+            hand.player_id,
+            lowest,
+            snapshot.lobby.state_version
+          );
+        }
+      }
+    } else if (state.phase === 'revealing') {
+      advanceClock(state.rules.turnTimer.revealSeconds * 1000);
+      await anyClient.resolveTurn(lobbyId, lobby.state_version);
+    } else if (state.phase === 'row_selection') {
+      const chooser = state.pendingRowSelection!.playerId;
+      await clients.get(chooser)!.chooseRow(lobbyId, chooser, 0, lobby.state_version);
+    }
+  }
+
+  throw new Error('The game did not finish');
+};
+
+describe('in-memory server, end to end', () => {
+  for (const playerCount of [2, 10]) {
+    it(`plays a ${playerCount}-player game from lobby to finish`, async () => {
+      const { clients, host, lobby, advanceClock } = await setUpTable(playerCount);
+      assert.equal(await host.countPlayers(lobby.id), playerCount);
+
+      await host.startGame(lobby.id);
+      for (const [playerId, client] of clients) {
+        const snapshot = (await client.fetchLobby(LOBBY_CODE))!;
+        assert.equal(snapshot.lobby.status, 'playing');
+        // Each player sees their own hand only, with a full hand dealt
+        assert.deepEqual(
+          snapshot.hands.map((hand) => hand.player_id),
+          [playerId]
+        );
+        assert.equal(snapshot.hands[0].hand.length, DEFAULT_RULES.handSize);
+      }
+
+      const turns = await playToTheEnd(clients, lobby.id, advanceClock);
+      assert.ok(turns >= DEFAULT_RULES.handSize, 'at least one full round was played');
+
+      const { lobby: finished, players } = (await host.fetchLobby(LOBBY_CODE))!;
+      assert.equal(finished.game_state!.phase, 'finished');
+      assert.ok(players.some((player) => player.score >= DEFAULT_RULES.targetScore));
+      // The shuffle seed is published once the game is over
+      assert.notEqual(finished.game_state!.seed, null);
+    });
+  }
+
+  it('opens a lobby with its host in the first seat', async () => {
+    const { server, host, lobby } = await setUpTable(1);
+    assert.equal(lobby.host_id, 'player-0');
+    const { players } = (await host.fetchLobby(LOBBY_CODE))!;
+    assert.deepEqual(
+      players.map((p) => [p.player_id, p.nickname, p.is_ready]),
+      [['player-0', 'Player 0', true]]
+    );
+
+    // A code already in use opens nothing, not even a seat
+    const carol = server.connect('carol');
+    await assert.rejects(carol.createLobby(LOBBY_CODE, 'Carol', DEFAULT_RULES, false));
+    assert.equal(server.db.select('lobby_players', { player_id: 'carol' }).length, 0);
+  });
+
+  it('refuses a move made against an outdated state', async () => {
+    const { clients, host, lobby } = await setUpTable(2);
+    await host.startGame(lobby.id);
+
+    const guest = clients.get('player-1')!;
+    const { hands } = (await guest.fetchLobby(LOBBY_CODE))!;
+    await assert.rejects(
+      guest.submitSelection(lobby.id, 'player-1', hands[0].hand[0], lobby.state_version),
+      isStaleStateError
+    );
+  });
+
+  it('refuses to start with rules no game can be played with', async () => {
+    const { host, lobby } = await setUpTable(2);
+    const rules = { ...DEFAULT_RULES, rowCount: 0 };
+    await host.updateSettings(lobby.id, { rules });
+
+    await assert.rejects(host.startGame(lobby.id), { message: /Invalid rules: rowCount/ });
+    assert.equal((await host.findLobby(LOBBY_CODE))!.status, 'waiting');
+  });
+
+  it('keeps bots and the seat limit within the seats of the lobby', async () => {
+    const { host, lobby } = await setUpTable(2);
+
+    await assert.rejects(host.addBot(lobby.id, 'Extra', 'random'), {
+      message: /This lobby is full/,
+    });
+    await host.updateSettings(lobby.id, { max_players: 3 });
+    await host.addBot(lobby.id, 'Extra', 'random');
+    await assert.rejects(host.updateSettings(lobby.id, { max_players: 2 }), {
+      message: /already has 3 players/,
+    });
+    assert.equal(await host.countPlayers(lobby.id), 3);
+  });
+
+  it('hands an old player ID over only to the device that knows it', async () => {
+    const server = createInMemoryServer();
+    // A lobby from before sign-in, after the upgrade hid its host's old ID
+    server.db.insert('legacy_player_ids', { legacy_id: 'player_old', hidden_id: 'legacy_1' });
+    const old = server.db.insert<Lobby>('lobbies', { code: LOBBY_CODE, host_id: 'legacy_1' });
+    server.db.insert('lobby_players', { lobby_id: old.id, player_id: 'legacy_1', nickname: 'Old' });
+
+    const mallory = server.connect('mallory');
+    await mallory.claimLegacyPlayerId('player_guessed');
+    assert.equal((await mallory.findLobby(LOBBY_CODE))!.host_id, 'legacy_1');
+
+    const alice = server.connect('alice');
+    await alice.claimLegacyPlayerId('player_old');
+    const { lobby, hands } = (await alice.fetchLobby(LOBBY_CODE))!;
+    assert.equal(lobby.host_id, 'alice');
+    assert.deepEqual(
+      hands.map((hand) => hand.player_id),
+      ['alice']
+    );
+    await assert.rejects(mallory.claimLegacyPlayerId('player_old'), {
+      message: /already been claimed/,
+    });
+  });
+
+  it('times out a player who does not pick a card', async () => {
+    const { clients, host, lobby, advanceClock } = await setUpTable(2);
+    await host.startGame(lobby.id);
+
+    const { lobby: started, hands } = (await host.fetchLobby(LOBBY_CODE))!;
+    await host.submitSelection(lobby.id, 'player-0', hands[0].hand[0], started.state_version);
+
+    // player-1 never picks; once the deadline passes any client can move the game on
+    const guest = clients.get('player-1')!;
+    const { lobby: waiting, hands: guestHands } = (await guest.fetchLobby(LOBBY_CODE))!;
+    advanceClock(DEFAULT_RULES.turnTimer.selectionSeconds * 1000);
+    await guest.resolveTurn(lobby.id, waiting.state_version);
+
+    // The server played player-1's lowest card for them (the lowest_card policy)
+    const { lobby: moved, hands: timedOut } = (await guest.fetchLobby(LOBBY_CODE))!;
+    const lowest = Math.min(...guestHands[0].hand.map((card) => card.number));
+    assert.equal(moved.game_state!.phase, 'revealing');
+    assert.equal(timedOut[0].selected_card?.number, lowest);
+  });
+
+  it('hands hosting over only once the host has been quiet for a while', async () => {
+    const { clients, host, lobby, advanceClock } = await setUpTable(2);
+    const guest = clients.get('player-1')!;
+
+    // The host has waited in the lobby, and sends no heartbeat once the game starts
+    advanceClock(10 * 60 * 1000);
+    await host.startGame(lobby.id);
+    await guest.touchPlayer(lobby.id);
+    assert.equal(await guest.claimHost(lobby.id), false);
+
+    advanceClock(25 * 1000);
+    await guest.touchPlayer(lobby.id);
+    assert.equal(await guest.claimHost(lobby.id), true);
+    const { lobby: claimed } = (await guest.fetchLobby(LOBBY_CODE))!;
+    assert.equal(claimed.host_id, 'player-1');
+  });
+});
+
+describe('in-memory server, two clients', () => {
+  it('fans changes out to every subscriber and keeps hands private', async () => {
+    const server = createInMemoryServer();
+    const alice = server.connect('alice');
+    const bob = server.connect('bob');
+
+    const lobby = await alice.createLobby(LOBBY_CODE, 'Alice', DEFAULT_RULES, false);
+    const changes = { alice: 0, bob: 0 };
+    const stopAlice = alice.subscribe(lobby, 'alice', {
+      scope: 'game',
+      onChange: () => changes.alice++,
+    });
+    const stopBob = bob.subscribe(lobby, 'bob', { scope: 'game', onChange: () => changes.bob++ });
+
+    try {
+      // Bob joining reaches Alice, who hosts
+      await bob.joinLobby(lobby.id, 'Bob');
+      await flush();
+      assert.ok(changes.alice > 0, 'the host hears about the new player');
+
+      // Starting reaches Bob
+      changes.bob = 0;
+      await alice.startGame(lobby.id);
+      await flush();
+      assert.ok(changes.bob > 0, 'the guest hears the game start');
+
+      // Each client reads its own hand only, even asking the table directly
+      const { data: bobsRows } = await server.client('bob').from('player_hands').select('*');
+      assert.deepEqual(
+        (bobsRows ?? []).map((row: { player_id: string }) => row.player_id),
+        ['bob']
+      );
+
+      // Bob may play his own card, not Alice's
+      const { lobby: started, hands } = (await bob.fetchLobby(LOBBY_CODE))!;
+      await assert.rejects(
+        bob.submitSelection(lobby.id, 'alice', hands[0].hand[0], started.state_version)
+      );
+      changes.alice = 0;
+      await bob.submitSelection(lobby.id, 'bob', hands[0].hand[0], started.state_version);
+      await flush();
+      assert.ok(changes.alice > 0, 'the host hears that Bob picked');
+
+      // Alice sees that Bob picked, but not which card
+      const { players, hands: alicesHands } = (await alice.fetchLobby(LOBBY_CODE))!;
+      assert.equal(players.find((player) => player.player_id === 'bob')?.has_selected, true);
+      assert.deepEqual(
+        alicesHands.map((hand) => hand.player_id),
+        ['alice']
+      );
+
+      // Clients can't change scores or the game state, or update a lobby they don't host
+      const bobsClient = server.client('bob');
+      const { error: scoreError } = await bobsClient
+        .from('lobby_players')
+        .update({ score: 0 })
+        .eq('player_id', 'bob');
+      assert.ok(scoreError, 'score is written by game functions only');
+      await bobsClient.from('lobbies').update({ rules: {} }).eq('id', lobby.id);
+      const [stored] = server.db.select<Lobby>('lobbies', { id: lobby.id });
+      assert.notDeepEqual(stored.rules, {}, 'only the host may update the lobby');
+
+      // Not even the host sets the status or host directly: only the game functions do
+      const alicesClient = server.client('alice');
+      const { error: statusError } = await alicesClient
+        .from('lobbies')
+        .update({ status: 'waiting' })
+        .eq('id', lobby.id);
+      assert.ok(statusError, 'a game in progress cannot be put back to waiting');
+      const { error: hostError } = await alicesClient
+        .from('lobbies')
+        .update({ host_id: 'bob' })
+        .eq('id', lobby.id);
+      assert.ok(hostError, 'the host is handed over by the game functions only');
+      const [unchanged] = server.db.select<Lobby>('lobbies', { id: lobby.id });
+      assert.equal(unchanged.status, 'playing');
+      assert.equal(unchanged.host_id, 'alice');
+    } finally {
+      stopAlice();
+      stopBob();
+    }
+  });
+
+  it('lists lobbies again only for changes that can change the list', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    const server = createInMemoryServer();
+    const [alice, bob, carol] = ['alice', 'bob', 'carol'].map((id) => server.connect(id));
+
+    const listed = await alice.createLobby(LOBBY_CODE, 'Alice', DEFAULT_RULES, true);
+    const hidden = await carol.createLobby('HIDDEN', 'Carol', DEFAULT_RULES, false);
+
+    let refetches = 0;
+    assert.equal((await bob.listPublicLobbies()).length, 1);
+    const stop = bob.subscribePublicLobbies(() => refetches++);
+    // Let changes reach the browser, and its short wait for more of them run out
+    const settle = async () => {
+      await flush();
+      mock.timers.tick(1000);
+    };
+
+    try {
+      // A private lobby filling up and changing its settings is none of the browser's business
+      await carol.addBot(hidden.id, 'Botty', 'random');
+      await carol.updateSettings(hidden.id, { max_players: 4 });
+      await settle();
+      assert.equal(refetches, 0);
+
+      // The listed lobby filling up lists lobbies once, however many seats were taken
+      await alice.addBot(listed.id, 'Bot 1', 'random');
+      await alice.addBot(listed.id, 'Bot 2', 'greedy');
+      await settle();
+      assert.equal(refetches, 1);
+
+      // A lobby going public may now be listed
+      await carol.updateSettings(hidden.id, { is_public: true });
+      await settle();
+      assert.equal(refetches, 2);
+    } finally {
+      stop();
+      mock.timers.reset();
+    }
+  });
+});
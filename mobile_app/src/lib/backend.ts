@@ -0,0 +1,130 @@
+import {
+  BotDifficulty,
+  Card,
+  Lobby,
+  LobbyPlayer,
+  LobbyPresence,
+  PlayerHand,
+  PublicLobby,
+  RuleSet,
+} from '../types';
+
+// Error code for a move made against an outdated game state (see _lock_game_state)
+export const STALE_STATE_ERROR = '40001';
+
+// Error code for a join with a missing or wrong password (see join_lobby)
+export const WRONG_PASSWORD_ERROR = '28P01';
+
+// Error code for a join by a player the host has banned (see join_lobby)
+export const BANNED_ERROR = '28000';
+
+// Everything one client can see of a lobby
+export interface LobbySnapshot {
+  lobby: Lobby;
+  // In join order
+  players: LobbyPlayer[];
+  // Hands this client may see: its own, plus the bots' when hosting
+  hands: PlayerHand[];
+}
+
+// What the host can change on a waiting lobby (the password is set separately)
+export type LobbySettings = Pick<Lobby, 'rules' | 'is_public' | 'max_players'>;
+
+export interface LobbySubscription {
+  // Screen listening; the lobby and the game each keep their own presence list
+  scope: 'lobby' | 'game';
+  // Something in the lobby, its players or the visible hands changed
+  onChange: () => void;
+  // Who has this screen open; the subscriber shares its own presence only when this is given
+  onPresence?: (presence: LobbyPresence) => void;
+}
+
+/**
+ * Everything the app asks of the server, so screens don't depend on where games are kept
+ * Each backend acts for one signed-in player; failed requests throw.
+ * - supabaseBackend: the hosted database (src/lib/supabaseBackend.ts)
+ * - createInMemoryServer: many clients sharing one process (src/lib/memoryBackend.ts)
+ */
+export interface GameBackend {
+  // Sign this client in and return its player ID
+  signIn: () => Promise<string>;
+  // Move lobbies joined under an ID made up on the device over to the signed-in player
+  claimLegacyPlayerId: (legacyId: string) => Promise<void>;
+  // Line up with the server's clock, and read it (turn deadlines are on the server clock)
+  syncClock: () => Promise<void>;
+  now: () => number;
+
+  // Lobbies
+  createLobby: (
+    code: string,
+    nickname: string,
+    rules: RuleSet,
+    isPublic: boolean
+  ) => Promise<Lobby>;
+  findLobby: (code: string) => Promise<Lobby | null>;
+  fetchLobby: (code: string) => Promise<LobbySnapshot | null>;
+  countPlayers: (lobbyId: string) => Promise<number>;
+  isInLobby: (lobbyId: string, playerId: string) => Promise<boolean>;
+  // Takes a seat as the signed-in player; the server checks the seat limit and password
+  joinLobby: (lobbyId: string, nickname: string, password?: string) => Promise<void>;
+  leaveLobby: (lobbyId: string) => Promise<void>;
+  addBot: (lobbyId: string, nickname: string, difficulty: BotDifficulty) => Promise<void>;
+  updateSettings: (lobbyId: string, settings: Partial<LobbySettings>) => Promise<void>;
+  // An empty or null password lets anyone join again
+  setJoinPassword: (lobbyId: string, password: string | null) => Promise<void>;
+  // Host only, before the game: remove a player, and with ban keep them from coming back
+  kickPlayer: (lobbyId: string, playerId: string, ban: boolean) => Promise<void>;
+  subscribe: (
+    lobby: Pick<Lobby, 'id' | 'code'>,
+    playerId: string,
+    subscription: LobbySubscription
+  ) => () => void;
+
+  // Lobby browser: waiting public lobbies, newest first, leaving out any that banned this player
+  // onChange fires, once per burst of changes, when the list may have changed: a lobby the last
+  // listPublicLobbies returned, or its seats, changed, or another lobby may now be listed
+  listPublicLobbies: () => Promise<PublicLobby[]>;
+  subscribePublicLobbies: (onChange: () => void) => () => void;
+
+  // Games (expectedVersion is the lobby's state_version the move was made against)
+  startGame: (lobbyId: string) => Promise<void>;
+  submitSelection: (
+    lobbyId: string,
+    playerId: string,
+    card: Card | null,
+    expectedVersion: number
+  ) => Promise<void>;
+  chooseRow: (
+    lobbyId: string,
+    playerId: string,
+    rowIndex: number,
+    expectedVersion: number
+  ) => Promise<void>;
+  resolveTurn: (lobbyId: string, expectedVersion: number) => Promise<void>;
+  resetLobby: (lobbyId: string) => Promise<void>;
+
+  // Host liveness: report this client is still here, or take over from a host who is not
+  touchPlayer: (lobbyId: string) => Promise<void>;
+  claimHost: (lobbyId: string) => Promise<boolean>;
+}
+
+/**
+ * Whether a request failed because the game had moved on since the client last looked
+ */
+export const isStaleStateError = (error: unknown): boolean => {
+  return (error as { code?: string } | null)?.code === STALE_STATE_ERROR;
+};
+
+/**
+ * Whether a join was refused because the lobby's password was missing or wrong
+ */
+export const isWrongPasswordError = (error: unknown): boolean => {
+  return (error as { code?: string } | null)?.code === WRONG_PASSWORD_ERROR;
+};
+
+/**
+ * Whether a join was refused because the host banned this player from the lobby
+ */
+export const isBannedError = (error: unknown): boolean => {
+  return (error as { code?: string } | null)?.code === BANNED_ERROR;
+};
@@ -0,0 +1,549 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// A row in a fake table
+type Row = Record<string, unknown>;
+
+// Who a request runs as, and the database as the server sees it (policies don't apply)
+export interface FakeContext {
+  userId: string;
+  db: FakeDatabase;
+  now: () => number;
+  // A fresh UUID-shaped ID, like uuid_generate_v4()
+  newId: () => string;
+}
+
+// Rows to act on: those whose columns equal these values, or that pass this test
+export type RowMatch<T> = Partial<T> | ((row: T) => boolean);
+
+// Direct access to the tables, for server-side functions, test setup and checks
+// Every call gets copies, so changes only happen through these methods.
+export interface FakeDatabase {
+  select: <T>(table: string, match?: RowMatch<T>) => T[];
+  insert: <T>(table: string, row: Partial<T>) => T;
+  update: <T>(table: string, match: RowMatch<T>, patch: Partial<T>) => T[];
+  delete: <T>(table: string, match: RowMatch<T>) => T[];
+}
+
+// One table: its defaults, constraints, policies and triggers
+export interface FakeTable {
+  // Fill in the columns a new row left out (column DEFAULTs)
+  defaults?: (row: Row, context: FakeContext) => Row;
+  // Column sets no two rows may share (PRIMARY KEY and UNIQUE)
+  unique?: string[][];
+  // Columns holding another table's id; the row is deleted with it (ON DELETE CASCADE)
+  references?: Record<string, string>;
+  // Row level security for client requests; a missing policy lets nothing through
+  policies?: {
+    select?: (row: Row, context: FakeContext) => boolean;
+    insert?: (row: Row, context: FakeContext) => boolean;
+    update?: (row: Row, context: FakeContext) => boolean;
+    // WITH CHECK for the changed row
+    updateCheck?: (row: Row, context: FakeContext) => boolean;
+    delete?: (row: Row, context: FakeContext) => boolean;
+  };
+  // Columns clients may write (GRANT); the rest are left to functions
+  grants?: { insert?: string[]; update?: string[] };
+  // Whether changes reach realtime subscribers (ALTER PUBLICATION supabase_realtime)
+  realtime?: boolean;
+  // Triggers; beforeUpdate may change the new row
+  afterInsert?: (row: Row, context: FakeContext) => void;
+  beforeUpdate?: (oldRow: Row, newRow: Row, context: FakeContext) => void;
+  afterUpdate?: (oldRow: Row, newRow: Row, context: FakeContext) => void;
+}
+
+// A database function clients call with rpc(); it returns the function's result
+export type FakeFunction = (args: Record<string, unknown>, context: FakeContext) => unknown;
+
+export interface FakeSupabaseOptions {
+  tables: Record<string, FakeTable>;
+  functions?: Record<string, FakeFunction>;
+  // The server clock, which tests can move forward
+  now?: () => number;
+}
+
+export interface FakeSupabase {
+  db: FakeDatabase;
+  // A client signed in as this user, as if on their own device
+  connect: (userId: string) => SupabaseClient;
+}
+
+interface PostgrestError {
+  message: string;
+  code: string;
+  details: string;
+  hint: string;
+}
+
+interface FakeResponse {
+  data: unknown;
+  error: PostgrestError | null;
+  count: number | null;
+}
+
+interface ChangeEvent {
+  table: string;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Row | null;
+  old: Row | null;
+}
+
+interface ChangeBinding {
+  table: string;
+  event: string;
+  filter: [string, string] | null;
+  callback: (payload: unknown) => void;
+}
+
+interface FakeChannel {
+  name: string;
+  userId: string;
+  presenceKey: string;
+  changeBindings: ChangeBinding[];
+  syncCallbacks: (() => void)[];
+  subscribed: boolean;
+  // What this channel shares with track(), until it leaves
+  presence: Row | null;
+}
+
+const copy = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+/**
+ * Fail a database function with an error code, like RAISE EXCEPTION
+ */
+export const raise = (message: string, code = 'P0001'): never => {
+  throw Object.assign(new Error(message), { code });
+};
+
+const toPostgrestError = (error: unknown): PostgrestError => {
+  const { message, code } = error as { message?: string; code?: string };
+  return { message: message ?? String(error), code: code ?? 'P0001', details: '', hint: '' };
+};
+
+const matches = <T>(row: T, match?: RowMatch<T>): boolean => {
+  if (!match) return true;
+  if (typeof match === 'function') return match(row);
+  return Object.entries(match).every(([column, value]) => row[column as keyof T] === value);
+};
+
+// Parse a realtime filter such as "lobby_id=eq.42" (only eq is supported)
+const parseFilter = (filter?: string): [string, string] | null => {
+  if (!filter) return null;
+  const found = /^(\w+)=eq\.(.*)$/.exec(filter);
+  if (!found) {
+    throw new Error(`Unsupported realtime filter: ${filter}`);
+  }
+  return [found[1], found[2]];
+};
+
+/**
+ * Create a stand-in for a Supabase project that lives in this process, for tests and demos
+ * Clients get the part of the supabase-js API the app uses: from() with select, insert,
+ * update, delete, eq, in, order, single, maybeSingle and count; rpc(); anonymous auth; and
+ * channels with postgres_changes and presence.
+ * Every request runs as one transaction: policies and grants are checked as the signed-in
+ * user, and a failure part-way changes nothing. Committed changes fan out asynchronously
+ * to every client's matching subscriptions, filtered by their select policies like realtime.
+ */
+export const createFakeSupabase = ({
+  tables,
+  functions = {},
+  now = Date.now,
+}: FakeSupabaseOptions): FakeSupabase => {
+  let data: Record<string, Row[]> = Object.fromEntries(Object.keys(tables).map((t) => [t, []]));
+  let pending: ChangeEvent[] = [];
+  const channels = new Set<FakeChannel>();
+  let nextId = 1;
+
+  const newId = () => `00000000-0000-4000-8000-${String(nextId++).padStart(12, '0')}`;
+
+  const tableOf = (table: string): FakeTable => {
+    return tables[table] ?? raise(`relation "public.${table}" does not exist`, '42P01');
+  };
+
+  const rowsOf = (table: string): Row[] => {
+    tableOf(table);
+    return data[table];
+  };
+
+  const checkUnique = (table: string, row: Row, except?: Row) => {
+    for (const columns of tableOf(table).unique ?? []) {
+      const clash = rowsOf(table).some(
+        (other) => other !== except && columns.every((column) => other[column] === row[column])
+      );
+      if (clash) {
+        raise(`duplicate key value violates unique constraint on ${table} (${columns})`, '23505');
+      }
+    }
+  };
+
+  // The tables as functions see them; changes are only sent out once the request commits
+  const contextFor = (userId: string): FakeContext => ({ userId, db, now, newId });
+
+  // check sees the complete row (defaults filled in) before it goes in
+  const insertRow = (
+    table: string,
+    values: Row,
+    context: FakeContext,
+    check?: (row: Row) => void
+  ): Row => {
+    const schema = tableOf(table);
+    const row = { ...(schema.defaults?.(values, context) ?? {}), ...copy(values) };
+    check?.(row);
+    checkUnique(table, row);
+    rowsOf(table).push(row);
+    pending.push({ table, eventType: 'INSERT', new: copy(row), old: null });
+    schema.afterInsert?.(copy(row), context);
+    return row;
+  };
+
+  const updateRow = (table: string, row: Row, patch: Row, context: FakeContext): Row => {
+    const schema = tableOf(table);
+    const oldRow = copy(row);
+    const newRow = { ...oldRow, ...copy(patch) };
+    schema.beforeUpdate?.(oldRow, newRow, context);
+    checkUnique(table, newRow, row);
+    Object.assign(row, newRow);
+    pending.push({ table, eventType: 'UPDATE', new: copy(row), old: oldRow });
+    schema.afterUpdate?.(oldRow, copy(row), context);
+    return row;
+  };
+
+  const deleteRow = (table: string, row: Row, context: FakeContext) => {
+    data[table] = rowsOf(table).filter((other) => other !== row);
+    pending.push({ table, eventType: 'DELETE', new: null, old: copy(row) });
+
+    // Take rows pointing at this one with it
+    for (const [other, schema] of Object.entries(tables)) {
+      for (const [column, target] of Object.entries(schema.references ?? {})) {
+        if (target !== table) continue;
+        for (const child of rowsOf(other).filter((r) => r[column] === row.id)) {
+          deleteRow(other, child, context);
+        }
+      }
+    }
+  };
+
+  // Who the request being run is for (functions and triggers act on their behalf)
+  let currentContext: FakeContext;
+
+  const db: FakeDatabase = {
+    select: <T>(table: string, match?: RowMatch<T>) => {
+      return copy(rowsOf(table).filter((row) => matches(row as T, match))) as T[];
+    },
+    insert: <T>(table: string, row: Partial<T>) => {
+      return copy(insertRow(table, row as Row, currentContext)) as T;
+    },
+    update: <T>(table: string, match: RowMatch<T>, patch: Partial<T>) => {
+      return rowsOf(table)
+        .filter((row) => matches(row as T, match))
+        .map((row) => copy(updateRow(table, row, patch as Row, currentContext)) as T);
+    },
+    delete: <T>(table: string, match: RowMatch<T>) => {
+      const rows = rowsOf(table).filter((row) => matches(row as T, match));
+      rows.forEach((row) => deleteRow(table, row, currentContext));
+      return copy(rows) as T[];
+    },
+  };
+
+  currentContext = contextFor('');
+
+  const deliver = (event: ChangeEvent) => {
+    const schema = tables[event.table];
+    if (!schema?.realtime) return;
+
+    const row = (event.new ?? event.old) as Row;
+    for (const channel of channels) {
+      if (!channel.subscribed) continue;
+      // Like realtime, subscribers only hear about rows they are allowed to read
+      if (!schema.policies?.select?.(row, contextFor(channel.userId))) continue;
+
+      for (const binding of channel.changeBindings) {
+        if (binding.table !== event.table) continue;
+        if (binding.event !== '*' && binding.event !== event.eventType) continue;
+        if (binding.filter && String(row[binding.filter[0]]) !== binding.filter[1]) continue;
+
+        const payload = {
+          schema: 'public',
+          table: event.table,
+          commit_timestamp: new Date(now()).toISOString(),
+          eventType: event.eventType,
+          new: event.new ?? {},
+          old: event.old ?? {},
+          errors: null,
+        };
+        Promise.resolve().then(() => binding.callback(copy(payload)));
+      }
+    }
+  };
+
+  // Run one request as the given user: all of it happens, or none of it does
+  const transaction = <T>(userId: string, run: (context: FakeContext) => T): T => {
+    const saved = copy(data);
+    pending = [];
+    currentContext = contextFor(userId);
+    try {
+      const result = run(currentContext);
+      const events = pending;
+      pending = [];
+      events.forEach(deliver);
+      return result;
+    } catch (error) {
+      data = saved;
+      pending = [];
+      throw error;
+    }
+  };
+
+  // Outside callers (tests) change the tables as the server, one transaction per call
+  const serverDb: FakeDatabase = {
+    select: (table, match) => db.select(table, match),
+    insert: (table, row) => transaction('', () => db.insert(table, row)),
+    update: (table, match, patch) => transaction('', () => db.update(table, match, patch)),
+    delete: (table, match) => transaction('', () => db.delete(table, match)),
+  };
+
+  const respond = async (userId: string, run: (context: FakeContext) => Partial<FakeResponse>) => {
+    // Answer asynchronously, like a request over the network
+    await Promise.resolve();
+    try {
+      return { data: null, count: null, ...transaction(userId, run), error: null };
+    } catch (error) {
+      return { data: null, count: null, error: toPostgrestError(error) };
+    }
+  };
+
+  const connect = (userId: string) => {
+    const visible = (table: string, context: FakeContext) => {
+      const canRead = tableOf(table).policies?.select;
+      return rowsOf(table).filter((row) => canRead?.(row, context) ?? false);
+    };
+
+    const checkGrant = (table: string, action: 'insert' | 'update', row: Row) => {
+      const granted = tableOf(table).grants?.[action] ?? [];
+      if (Object.keys(row).some((column) => !granted.includes(column))) {
+        raise(`permission denied for table ${table}`, '42501');
+      }
+    };
+
+    const from = (table: string) => {
+      let action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+      let values: Row[] = [];
+      let columns: string | null = null;
+      let countRows = false;
+      let head = false;
+      let cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+      const filters: ((row: Row) => boolean)[] = [];
+      const ordering: [string, boolean][] = [];
+
+      const run = (context: FakeContext): Partial<FakeResponse> => {
+        const policies = tableOf(table).policies ?? {};
+        const filtered = (rows: Row[]) => rows.filter((row) => filters.every((keep) => keep(row)));
+
+        let rows: Row[];
+        if (action === 'insert') {
+          rows = values.map((value) => {
+            checkGrant(table, 'insert', value);
+            return insertRow(table, value, context, (row) => {
+              if (!policies.insert?.(row, context)) {
+                raise(`new row violates row-level security policy for table "${table}"`, '42501');
+              }
+            });
+          });
+        } else if (action === 'update') {
+          const [patch] = values;
+          checkGrant(table, 'update', patch);
+          rows = filtered(visible(table, context))
+            .filter((row) => policies.update?.(row, context))
+            .map((row) => {
+              const updated = updateRow(table, row, patch, context);
+              if (policies.updateCheck && !policies.updateCheck(updated, context)) {
+                raise(`new row violates row-level security policy for table "${table}"`, '42501');
+              }
+              return updated;
+            });
+        } else if (action === 'delete') {
+          rows = filtered(visible(table, context)).filter((row) => policies.delete?.(row, context));
+          rows.forEach((row) => deleteRow(table, row, context));
+        } else {
+          rows = filtered(visible(table, context));
+        }
+
+        for (const [column, ascending] of [...ordering].reverse()) {
+          rows = [...rows].sort((a, b) => {
+            const [x, y] = [a[column], b[column]] as [string, string];
+            return (x < y ? -1 : x > y ? 1 : 0) * (ascending ? 1 : -1);
+          });
+        }
+
+        const count = countRows ? rows.length : null;
+        // Writes only return rows when asked to with select()
+        if (head || columns === null) {
+          return { data: null, count };
+        }
+
+        const picked = rows.map((row) => {
+          if (columns === '*') return copy(row);
+          return Object.fromEntries(
+            columns!.split(',').map((column) => [column.trim(), copy(row[column.trim()])])
+          );
+        });
+
+        if (cardinality === 'many') {
+          return { data: picked, count };
+        }
+        if (picked.length > 1 || (picked.length === 0 && cardinality === 'single')) {
+          return raise('JSON object requested, multiple (or no) rows returned', 'PGRST116');
+        }
+        return { data: picked[0] ?? null, count };
+      };
+
+      const builder = {
+        select: (selected = '*', options: { count?: 'exact'; head?: boolean } = {}) => {
+          columns = selected;
+          countRows = options.count !== undefined;
+          head = options.head ?? false;
+          return builder;
+        },
+        insert: (rows: Row | Row[]) => {
+          action = 'insert';
+          values = Array.isArray(rows) ? rows : [rows];
+          return builder;
+        },
+        update: (patch: Row) => {
+          action = 'update';
+          values = [patch];
+          return builder;
+        },
+        delete: () => {
+          action = 'delete';
+          return builder;
+        },
+        eq: (column: string, value: unknown) => {
+          filters.push((row) => row[column] === value);
+          return builder;
+        },
+        in: (column: string, values: unknown[]) => {
+          filters.push((row) => values.includes(row[column]));
+          return builder;
+        },
+        order: (column: string, { ascending = true }: { ascending?: boolean } = {}) => {
+          ordering.push([column, ascending]);
+          return builder;
+        },
+        single: () => {
+          cardinality = 'single';
+          return builder;
+        },
+        maybeSingle: () => {
+          cardinality = 'maybeSingle';
+          return builder;
+        },
+        then: <A, B = never>(
+          onFulfilled?: (response: FakeResponse) => A | PromiseLike<A>,
+          onRejected?: (reason: unknown) => B | PromiseLike<B>
+        ) => respond(userId, run).then(onFulfilled, onRejected),
+      };
+      return builder;
+    };
+
+    const rpc = (name: string, args: Record<string, unknown> = {}) => {
+      return respond(userId, (context) => {
+        const fn =
+          functions[name] ?? raise(`Could not find the function public.${name}`, 'PGRST202');
+        return { data: copy(fn(copy(args), context) ?? null) };
+      });
+    };
+
+    const syncPresence = (name: string) => {
+      for (const channel of channels) {
+        if (channel.name === name && channel.subscribed) {
+          channel.syncCallbacks.forEach((callback) => Promise.resolve().then(callback));
+        }
+      }
+    };
+
+    const channel = (name: string, options?: { config?: { presence?: { key?: string } } }) => {
+      const state: FakeChannel = {
+        name,
+        userId,
+        presenceKey: options?.config?.presence?.key ?? userId,
+        changeBindings: [],
+        syncCallbacks: [],
+        subscribed: false,
+        presence: null,
+      };
+
+      const realtimeChannel = {
+        on: (
+          type: string,
+          filter: { event: string; table?: string; filter?: string },
+          callback: (payload: unknown) => void
+        ) => {
+          if (type === 'postgres_changes') {
+            state.changeBindings.push({
+              table: filter.table ?? '',
+              event: filter.event,
+              filter: parseFilter(filter.filter),
+              callback,
+            });
+          } else if (type === 'presence' && filter.event === 'sync') {
+            state.syncCallbacks.push(() => callback({}));
+          }
+          return realtimeChannel;
+        },
+        subscribe: (callback?: (status: string) => void) => {
+          channels.add(state);
+          state.subscribed = true;
+          Promise.resolve().then(() => callback?.('SUBSCRIBED'));
+          syncPresence(name);
+          return realtimeChannel;
+        },
+        track: async (payload: Row) => {
+          state.presence = copy(payload);
+          syncPresence(name);
+          return 'ok';
+        },
+        untrack: async () => {
+          state.presence = null;
+          syncPresence(name);
+          return 'ok';
+        },
+        presenceState: () => {
+          const presence: Record<string, Row[]> = {};
+          for (const other of channels) {
+            if (other.name !== name || !other.subscribed || !other.presence) continue;
+            (presence[other.presenceKey] ??= []).push({
+              ...copy(other.presence),
+              presence_ref: other.presenceKey,
+            });
+          }
+          return presence;
+        },
+        unsubscribe: async () => {
+          state.subscribed = false;
+          channels.delete(state);
+          syncPresence(name);
+          return 'ok';
+        },
+      };
+      return realtimeChannel;
+    };
+
+    const session = { user: { id: userId }, access_token: `fake-token-${userId}` };
+
+    const client = {
+      from,
+      rpc,
+      channel,
+      removeChannel: (realtimeChannel: ReturnType<typeof channel>) => realtimeChannel.unsubscribe(),
+      auth: {
+        getSession: async () => ({ data: { session }, error: null }),
+        signInAnonymously: async () => ({ data: session, error: null }),
+      },
+    };
+    // Only the parts above exist; anything else the app calls will fail loudly
+    return client as unknown as SupabaseClient;
+  };
+
+  return { db: serverDb, connect };
+};
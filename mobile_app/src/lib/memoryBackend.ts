@@ -0,0 +1,756 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  Card,
+  GameState,
+  Lobby,
+  LobbyPlayer,
+  Player,
+  PlayerHand,
+  RowChoices,
+  RuleSet,
+  TurnSelections,
+} from '../types';
+import {
+  initializeGame,
+  pickTimeoutCard,
+  pickTimeoutRow,
+  resolveTurn,
+  sortRevealedCards,
+  stampTurnDeadline,
+} from '../utils/gameLogic';
+import { assertGameDealable } from '../utils/dealing';
+import { assertValidRules, mergeDefaultRules } from '../utils/rules';
+import { generateSeed } from '../utils/random';
+import { BANNED_ERROR, GameBackend, STALE_STATE_ERROR, WRONG_PASSWORD_ERROR } from './backend';
+import {
+  createFakeSupabase,
+  FakeContext,
+  FakeDatabase,
+  FakeFunction,
+  FakeTable,
+  raise,
+} from './fakeSupabase';
+import { createSupabaseBackend } from './supabaseBackend';
+
+// How long a host may go without a heartbeat before another player can take over (see claim_host)
+const HOST_TIMEOUT_MS = 20000;
+
+interface StoredHand extends PlayerHand {
+  // Player whose device may read this hand (the host, for bots)
+  owner_id: string;
+}
+
+interface LobbySecret {
+  lobby_id: string;
+  seed: number;
+  started_at: string;
+}
+
+// The SQL stores a hash; nothing outside this process can read the table, so this keeps the text
+interface LobbyPassword {
+  lobby_id: string;
+  password: string;
+}
+
+interface LobbyBan {
+  lobby_id: string;
+  player_id: string;
+  banned_at: string;
+}
+
+interface Heartbeat {
+  lobby_id: string;
+  player_id: string;
+  last_seen_at: string;
+}
+
+interface LegacyPlayerId {
+  legacy_id: string;
+  hidden_id: string;
+  user_id: string | null;
+  claimed_at: string | null;
+}
+
+export interface InMemoryServer {
+  // A backend acting for one player, as if it ran on their own device
+  connect: (userId: string) => GameBackend;
+  // The Supabase client that player's device would use, for code that talks to it directly
+  client: (userId: string) => SupabaseClient;
+  // The tables as the server sees them, for setting up and checking tests
+  db: FakeDatabase;
+}
+
+const timestamp = ({ now }: FakeContext) => new Date(now()).toISOString();
+
+const getLobby = (db: FakeDatabase, lobbyId: string): Lobby => {
+  return db.select<Lobby>('lobbies', { id: lobbyId })[0] ?? raise('Lobby not found');
+};
+
+const isLobbyHost = (db: FakeDatabase, lobbyId: string, userId: string) => {
+  return db.select<Lobby>('lobbies', { id: lobbyId, host_id: userId }).length > 0;
+};
+
+const isPlayerInLobby = (db: FakeDatabase, lobbyId: string, playerId: string) => {
+  const match = { lobby_id: lobbyId, player_id: playerId };
+  return db.select<LobbyPlayer>('lobby_players', match).length > 0;
+};
+
+// Whether a game is being played in the lobby (see _is_game_in_progress)
+const isGameInProgress = (db: FakeDatabase, lobbyId: string) => {
+  const lobby = db.select<Lobby>('lobbies', { id: lobbyId })[0];
+  return lobby?.status === 'playing' && lobby.game_state?.phase !== 'finished';
+};
+
+// A lobby's players in join order
+const playersOf = (db: FakeDatabase, lobbyId: string): LobbyPlayer[] => {
+  return db
+    .select<LobbyPlayer>('lobby_players', { lobby_id: lobbyId })
+    .sort((a, b) => a.joined_at.localeCompare(b.joined_at));
+};
+
+const handOf = (db: FakeDatabase, lobbyId: string, playerId: string): StoredHand => {
+  return (
+    db.select<StoredHand>('player_hands', { lobby_id: lobbyId, player_id: playerId })[0] ??
+    raise(`No hand for ${playerId}`)
+  );
+};
+
+// Whether a user may play for this player: their own seat, or a bot they host (see _owns_player)
+const ownsPlayer = (db: FakeDatabase, lobbyId: string, userId: string, playerId: string) => {
+  const match = { lobby_id: lobbyId, player_id: playerId, owner_id: userId };
+  return db.select<StoredHand>('player_hands', match).length > 0;
+};
+
+// Rename a player in their hands (handing them to ownerId), seats, hosted lobbies and game
+// states (see _move_player_id); hands first, so the bot hands follow when the host changes
+const movePlayerId = (db: FakeDatabase, from: string, to: string, ownerId: string) => {
+  db.update<StoredHand>('player_hands', { player_id: from }, { player_id: to, owner_id: ownerId });
+  db.update<LobbyPlayer>('lobby_players', { player_id: from }, { player_id: to });
+
+  const [fromJson, toJson] = [JSON.stringify(from), JSON.stringify(to)];
+  const lobbies = db.select<Lobby>(
+    'lobbies',
+    (l) => l.host_id === from || isPlayerInLobby(db, l.id, to)
+  );
+  for (const lobby of lobbies) {
+    db.update<Lobby>('lobbies', { id: lobby.id }, {
+      host_id: lobby.host_id === from ? to : lobby.host_id,
+      game_state: JSON.parse(JSON.stringify(lobby.game_state).split(fromJson).join(toJson)),
+    });
+  }
+};
+
+// What clients see of a game: everything but the seed, until the game ends
+const publicState = (state: GameState | null): GameState | null => {
+  return state && state.phase !== 'finished' ? { ...state, seed: null } : state;
+};
+
+// The whole game state, seed included, as only the server sees it
+const fullState = (db: FakeDatabase, lobby: Lobby): GameState | null => {
+  if (!lobby.game_state) return null;
+  const secret = db.select<LobbySecret>('lobby_secrets', { lobby_id: lobby.id })[0];
+  return { ...lobby.game_state, seed: secret?.seed ?? lobby.game_state.seed };
+};
+
+const setState = (db: FakeDatabase, lobbyId: string, state: GameState | null) => {
+  db.update<Lobby>('lobbies', { id: lobbyId }, { game_state: publicState(state) });
+};
+
+// Refuse a move made against an older state (see _lock_game_state)
+const lockGameState = (
+  db: FakeDatabase,
+  lobbyId: string,
+  expectedVersion: number | null
+): GameState => {
+  const lobby = getLobby(db, lobbyId);
+  if (expectedVersion !== null && lobby.state_version !== expectedVersion) {
+    raise(
+      `The game has moved on (version ${expectedVersion} is now ${lobby.state_version})`,
+      STALE_STATE_ERROR
+    );
+  }
+  return fullState(db, lobby) ?? raise('This lobby has no game in progress');
+};
+
+// Move a game on as far as it can go right now (see resolve_turn)
+const resolve = (db: FakeDatabase, lobbyId: string, now: number) => {
+  const state = fullState(db, getLobby(db, lobbyId));
+  if (!state) return;
+
+  const { rules } = state;
+  const timedOut = state.turnDeadline !== null && now >= Date.parse(state.turnDeadline);
+  const rowChoices: RowChoices = {};
+  const players = playersOf(db, lobbyId);
+  let current = state;
+
+  if (current.phase === 'selecting') {
+    if (timedOut) {
+      for (const player of players) {
+        const hand = handOf(db, lobbyId, player.player_id);
+        if (!hand.selected_card && hand.hand.length > 0) {
+          db.update<StoredHand>('player_hands', { lobby_player_id: player.id }, {
+            selected_card: pickTimeoutCard(hand.hand, rules.turnTimer.cardPolicy),
+          });
+        }
+      }
+      db.update<LobbyPlayer>('lobby_players', { lobby_id: lobbyId }, { has_selected: true });
+    }
+
+    const hands = players.map((p) => handOf(db, lobbyId, p.player_id));
+    if (hands.some((h) => !h.selected_card)) return;
+
+    // Everyone has chosen: reveal the cards, lowest first
+    current = stampTurnDeadline(
+      {
+        ...current,
+        phase: 'revealing',
+        revealedCards: sortRevealedCards(
+          players.map((p, seat) => ({
+            playerId: p.player_id,
+            playerName: p.nickname,
+            card: hands[seat].selected_card as Card,
+          }))
+        ),
+      },
+      now
+    );
+    setState(db, lobbyId, current);
+    if (current.turnDeadline) return;
+  } else if (current.phase === 'revealing') {
+    if (!timedOut) return;
+  } else if (current.phase === 'row_selection' && current.pendingRowSelection) {
+    const pending = players.find((p) => p.player_id === current.pendingRowSelection?.playerId);
+    if (!pending) return;
+
+    let rowChoice = pending.row_choice;
+    if (rowChoice === null) {
+      if (!timedOut) return;
+      rowChoice = pickTimeoutRow(current.tableRows, rules.turnTimer.rowPolicy);
+      db.update<LobbyPlayer>('lobby_players', { id: pending.id }, { row_choice: rowChoice });
+    }
+    rowChoices[pending.player_id] = rowChoice;
+  } else {
+    return;
+  }
+
+  // Place the revealed cards with the game logic, seed included for the next deal
+  const { host_id: hostId } = getLobby(db, lobbyId);
+  const selections: TurnSelections = {};
+  const enginePlayers: Player[] = players.map((p) => {
+    const hand = handOf(db, lobbyId, p.player_id);
+    if (current.phase === 'revealing' && hand.selected_card) {
+      selections[p.player_id] = hand.selected_card;
+    }
+    return {
+      id: p.player_id,
+      nickname: p.nickname,
+      score: p.score,
+      hand: hand.hand,
+      isHost: p.player_id === hostId,
+      isReady: p.is_ready,
+      selectedCard: null,
+    };
+  });
+
+  const turn = { gameState: current, players: enginePlayers };
+  const result = resolveTurn(turn, selections, rowChoices);
+  const next = result.state.gameState;
+
+  for (const player of result.state.players) {
+    const seat = { lobby_id: lobbyId, player_id: player.id };
+    db.update<LobbyPlayer>('lobby_players', seat, {
+      score: player.score,
+      has_selected: false,
+      ...(next.phase !== 'row_selection' ? { row_choice: null } : {}),
+    });
+    db.update<StoredHand>('player_hands', seat, { hand: player.hand, selected_card: null });
+  }
+
+  setState(
+    db,
+    lobbyId,
+    next.phase === 'finished' ? { ...next, turnDeadline: null } : stampTurnDeadline(next, now)
+  );
+};
+
+// The tables, policies, grants and triggers of supabase-schema.sql
+const gameTables: Record<string, FakeTable> = {
+  lobbies: {
+    defaults: (_row, context) => ({
+      id: context.newId(),
+      status: 'waiting',
+      rules: null,
+      game_state: null,
+      state_version: 0,
+      is_public: false,
+      max_players: 10,
+      has_password: false,
+      created_at: timestamp(context),
+    }),
+    unique: [['id'], ['code']],
+    policies: {
+      select: () => true,
+      insert: (row, { userId }) => row.host_id === userId && row.status === 'waiting',
+      update: (row, { userId }) => row.host_id === userId,
+      updateCheck: (row, { db }) => isPlayerInLobby(db, row.id as string, row.host_id as string),
+      delete: (row, { userId }) => row.host_id === userId,
+    },
+    grants: {
+      insert: ['code', 'host_id', 'status', 'rules', 'is_public'],
+      update: ['rules', 'is_public', 'max_players'],
+    },
+    realtime: true,
+    // Number every game_state change (see bump_state_version)
+    beforeUpdate: (oldRow, newRow, { db }) => {
+      const maxPlayers = newRow.max_players as number;
+      if (!Number.isInteger(maxPlayers) || maxPlayers < 2 || maxPlayers > 10) {
+        raise('new row for relation "lobbies" violates check constraint', '23514');
+      }
+      // The seat limit can't go below the seats already taken (see check_max_players)
+      const seats = playersOf(db, newRow.id as string).length;
+      if (maxPlayers < seats) {
+        raise(`The lobby already has ${seats} players (max ${maxPlayers} asked for)`);
+      }
+
+      const changed = JSON.stringify(newRow.game_state) !== JSON.stringify(oldRow.game_state);
+      newRow.state_version = (oldRow.state_version as number) + (changed ? 1 : 0);
+    },
+    // The new host plays the bots from now on (see transfer_bot_hands)
+    afterUpdate: (oldRow, newRow, { db }) => {
+      if (oldRow.host_id === newRow.host_id) return;
+
+      const lobbyId = newRow.id as string;
+      const { owner_id: ownerId } = handOf(db, lobbyId, newRow.host_id as string);
+      const bots = db.select<LobbyPlayer>('lobby_players', { lobby_id: lobbyId, is_bot: true });
+      for (const bot of bots) {
+        db.update<StoredHand>('player_hands', { lobby_player_id: bot.id }, { owner_id: ownerId });
+      }
+    },
+  },
+
+  lobby_players: {
+    defaults: (_row, context) => ({
+      id: context.newId(),
+      score: 0,
+      has_selected: false,
+      row_choice: null,
+      is_ready: false,
+      is_bot: false,
+      bot_difficulty: null,
+      joined_at: timestamp(context),
+    }),
+    unique: [['id'], ['lobby_id', 'player_id']],
+    references: { lobby_id: 'lobbies' },
+    policies: {
+      select: () => true,
+      // Everyone but the host joins through join_lobby
+      insert: (row, { userId, db }) =>
+        isLobbyHost(db, row.lobby_id as string, userId) &&
+        (row.player_id === userId || row.is_bot === true) &&
+        db.select<Lobby>('lobbies', { id: row.lobby_id as string, status: 'waiting' }).length > 0,
+      update: (row, { userId }) => row.player_id === userId,
+      // Not mid-game: a missing seat could stall a row choice
+      delete: (row, { userId, db }) =>
+        (row.player_id === userId ||
+          (row.is_bot === true && isLobbyHost(db, row.lobby_id as string, userId))) &&
+        !isGameInProgress(db, row.lobby_id as string),
+    },
+    grants: {
+      insert: ['lobby_id', 'player_id', 'nickname', 'is_ready', 'is_bot', 'bot_difficulty'],
+      update: ['nickname', 'is_ready'],
+    },
+    realtime: true,
+    // No seat past the lobby's limit, bots included (see check_seat_limit); every new
+    // player gets an empty private hand, owned by whoever added them (see create_player_hand)
+    afterInsert: (row, { db, userId }) => {
+      const { max_players: maxPlayers } = getLobby(db, row.lobby_id as string);
+      if (playersOf(db, row.lobby_id as string).length > maxPlayers) {
+        raise(`This lobby is full (max ${maxPlayers} players)`);
+      }
+
+      db.insert<StoredHand>('player_hands', {
+        lobby_player_id: row.id as string,
+        lobby_id: row.lobby_id as string,
+        player_id: row.player_id as string,
+        owner_id: userId,
+      });
+    },
+  },
+
+  player_hands: {
+    defaults: () => ({ hand: [], selected_card: null }),
+    unique: [['lobby_player_id']],
+    references: { lobby_player_id: 'lobby_players', lobby_id: 'lobbies' },
+    policies: {
+      select: (row, { userId }) => row.owner_id === userId,
+    },
+    realtime: true,
+  },
+
+  // No policies: only the functions below use these
+  lobby_secrets: {
+    defaults: (_row, context) => ({ started_at: timestamp(context) }),
+    unique: [['lobby_id']],
+    references: { lobby_id: 'lobbies' },
+  },
+
+  lobby_passwords: {
+    unique: [['lobby_id']],
+    references: { lobby_id: 'lobbies' },
+  },
+
+  lobby_bans: {
+    defaults: (_row, context) => ({ banned_at: timestamp(context) }),
+    unique: [['lobby_id', 'player_id']],
+    references: { lobby_id: 'lobbies' },
+    // Players can see which lobbies banned them; bans are only made by kick_player
+    policies: {
+      select: (row, { userId }) => row.player_id === userId,
+    },
+  },
+
+  legacy_player_ids: {
+    defaults: () => ({ user_id: null, claimed_at: null }),
+    unique: [['legacy_id'], ['hidden_id']],
+  },
+
+  player_heartbeats: {
+    defaults: (_row, context) => ({ last_seen_at: timestamp(context) }),
+    unique: [['lobby_id', 'player_id']],
+    references: { lobby_id: 'lobbies' },
+  },
+};
+
+// The game functions of supabase-schema.sql, each run as one transaction
+const gameFunctions: Record<string, FakeFunction> = {
+  server_time: (_args, context) => timestamp(context),
+
+  // The old ID is the proof, as it is hidden from everyone but the device that made it
+  claim_player_id: (args, context) => {
+    const { db, userId } = context;
+    const { p_legacy_id: legacyId } = args as { p_legacy_id: string };
+    if (!legacyId.startsWith('player_')) raise(`Not an old player ID: ${legacyId}`);
+
+    const legacy = db.select<LegacyPlayerId>('legacy_player_ids', { legacy_id: legacyId })[0];
+    if (!legacy) return;
+    if (legacy.user_id !== null && legacy.user_id !== userId) {
+      raise(`Player ID ${legacyId} has already been claimed`);
+    }
+
+    db.update<LegacyPlayerId>('legacy_player_ids', { legacy_id: legacyId }, {
+      user_id: userId,
+      claimed_at: legacy.claimed_at ?? timestamp(context),
+    });
+    movePlayerId(db, legacy.hidden_id, userId, userId);
+  },
+
+  // The server deals, so no device ever sees another player's hand
+  start_game: (args, { db, userId, now }) => {
+    const { p_lobby_id: lobbyId } = args as { p_lobby_id: string };
+    const lobby = getLobby(db, lobbyId);
+    if (lobby.host_id !== userId) raise('Only the host can start the game');
+    if (lobby.status === 'playing' && lobby.game_state?.phase !== 'finished') {
+      raise('The game has already started');
+    }
+
+    const players = playersOf(db, lobbyId);
+    if (players.length < 2 || players.length > 10) {
+      raise(`A game needs 2 to 10 players, not ${players.length}`);
+    }
+
+    const rules = mergeDefaultRules(lobby.rules);
+    assertValidRules(rules);
+    assertGameDealable(players.length, rules);
+    const seed = generateSeed();
+    const { gameState, hands } = initializeGame(players.length, rules, seed);
+
+    players.forEach((player, seat) => {
+      db.update<StoredHand>('player_hands', { lobby_player_id: player.id }, {
+        hand: hands[seat].slice().sort((a, b) => a.number - b.number),
+        selected_card: null,
+      });
+      db.update<LobbyPlayer>('lobby_players', { id: player.id }, {
+        score: 0,
+        has_selected: false,
+        row_choice: null,
+      });
+    });
+
+    db.delete<LobbySecret>('lobby_secrets', { lobby_id: lobbyId });
+    db.insert<LobbySecret>('lobby_secrets', { lobby_id: lobbyId, seed });
+    db.update<Lobby>('lobbies', { id: lobbyId }, {
+      status: 'playing',
+      game_state: publicState(stampTurnDeadline(gameState, now())),
+    });
+  },
+
+  submit_selection: (args, { db, userId, now }) => {
+    const {
+      p_lobby_id: lobbyId,
+      p_player_id: playerId,
+      p_card: card,
+      p_expected_version: expectedVersion = null,
+    } = args as {
+      p_lobby_id: string;
+      p_player_id: string;
+      p_card: Card | null;
+      p_expected_version?: number | null;
+    };
+
+    const state = lockGameState(db, lobbyId, expectedVersion);
+    if (state.phase !== 'selecting') raise('Cards can only be chosen while players are selecting');
+    if (!ownsPlayer(db, lobbyId, userId, playerId)) raise(`You cannot play for player ${playerId}`);
+
+    // The hand's copy is stored, so pig values can't be forged
+    const hand = handOf(db, lobbyId, playerId);
+    const chosen = card ? hand.hand.find((c) => c.number === card.number) : null;
+    if (card && !chosen) raise(`Card ${card.number} is not in this player's hand`);
+
+    db.update<StoredHand>('player_hands', { lobby_player_id: hand.lobby_player_id }, {
+      selected_card: chosen ?? null,
+    });
+    db.update<LobbyPlayer>('lobby_players', { id: hand.lobby_player_id }, {
+      has_selected: Boolean(chosen),
+    });
+
+    resolve(db, lobbyId, now());
+  },
+
+  choose_row: (args, { db, userId, now }) => {
+    const {
+      p_lobby_id: lobbyId,
+      p_player_id: playerId,
+      p_row_index: rowIndex,
+      p_expected_version: expectedVersion = null,
+    } = args as {
+      p_lobby_id: string;
+      p_player_id: string;
+      p_row_index: number;
+      p_expected_version?: number | null;
+    };
+
+    const state = lockGameState(db, lobbyId, expectedVersion);
+    if (state.phase !== 'row_selection' || state.pendingRowSelection?.playerId !== playerId) {
+      raise("It is not this player's turn to choose a row");
+    }
+    if (!ownsPlayer(db, lobbyId, userId, playerId)) raise(`You cannot play for player ${playerId}`);
+    if (rowIndex < 0 || rowIndex >= state.tableRows.length) raise(`Invalid row ${rowIndex}`);
+
+    const seat = { lobby_id: lobbyId, player_id: playerId };
+    db.update<LobbyPlayer>('lobby_players', seat, { row_choice: rowIndex });
+
+    resolve(db, lobbyId, now());
+  },
+
+  resolve_turn: (args, { db, now }) => {
+    const { p_lobby_id: lobbyId, p_expected_version: expectedVersion = null } = args as {
+      p_lobby_id: string;
+      p_expected_version?: number | null;
+    };
+
+    const lobby = getLobby(db, lobbyId);
+    if (!lobby.game_state) raise('This lobby has no game in progress');
+    // A request made against an older state has nothing left to do
+    if (expectedVersion !== null && lobby.state_version !== expectedVersion) return;
+    resolve(db, lobbyId, now());
+  },
+
+  // Scores, hands and the game state are reset together
+  reset_lobby: (args, { db, userId }) => {
+    const { p_lobby_id: lobbyId } = args as { p_lobby_id: string };
+    const lobby = db.select<Lobby>('lobbies', { id: lobbyId })[0];
+    if (!lobby || !isPlayerInLobby(db, lobbyId, userId)) {
+      raise('Only players in this lobby can reset it');
+    }
+    if (lobby.host_id !== userId && lobby.game_state?.phase !== 'finished') {
+      raise('Only the host can stop a game in progress');
+    }
+
+    db.update<Lobby>('lobbies', { id: lobbyId }, { status: 'waiting', game_state: null });
+    for (const player of playersOf(db, lobbyId)) {
+      db.update<LobbyPlayer>('lobby_players', { id: player.id }, {
+        score: 0,
+        has_selected: false,
+        row_choice: null,
+        is_ready: player.is_bot || player.player_id === lobby.host_id,
+      });
+    }
+    db.update<StoredHand>('player_hands', { lobby_id: lobbyId }, { hand: [], selected_card: null });
+    db.delete<LobbySecret>('lobby_secrets', { lobby_id: lobbyId });
+  },
+
+  // Leave, hand over hosting and delete a bots-only lobby in one step
+  leave_lobby: (args, { db, userId }) => {
+    const { p_lobby_id: lobbyId } = args as { p_lobby_id: string };
+    const lobby = db.select<Lobby>('lobbies', { id: lobbyId })[0];
+    if (!lobby) return;
+    if (isGameInProgress(db, lobbyId)) raise('Players cannot leave a game in progress');
+
+    db.delete<LobbyPlayer>('lobby_players', { lobby_id: lobbyId, player_id: userId });
+
+    const newHost = playersOf(db, lobbyId).find((p) => !p.is_bot);
+    if (!newHost) {
+      db.delete<Lobby>('lobbies', { id: lobbyId });
+    } else if (lobby.host_id === userId) {
+      db.update<Lobby>('lobbies', { id: lobbyId }, { host_id: newHost.player_id });
+    }
+  },
+
+  // Take a free seat, if the password (when there is one) is right
+  // The lobby and its host's seat are made together (see create_lobby)
+  create_lobby: (args, { db, userId }) => {
+    const {
+      p_code: code,
+      p_nickname: nickname,
+      p_rules: rules = null,
+      p_is_public: isPublic = false,
+    } = args as {
+      p_code: string;
+      p_nickname: string;
+      p_rules?: RuleSet | null;
+      p_is_public?: boolean;
+    };
+
+    const lobby = db.insert<Lobby>('lobbies', {
+      code,
+      host_id: userId,
+      status: 'waiting',
+      rules,
+      is_public: isPublic,
+    });
+    db.insert<LobbyPlayer>('lobby_players', {
+      lobby_id: lobby.id,
+      player_id: userId,
+      nickname,
+      is_ready: true,
+    });
+    return lobby;
+  },
+
+  join_lobby: (args, { db, userId }) => {
+    const {
+      p_lobby_id: lobbyId,
+      p_nickname: nickname,
+      p_password: password = null,
+    } = args as { p_lobby_id: string; p_nickname: string; p_password?: string | null };
+
+    const lobby = db.select<Lobby>('lobbies', { id: lobbyId })[0];
+    if (!lobby || lobby.status !== 'waiting') raise('This lobby is not taking new players');
+    if (isPlayerInLobby(db, lobbyId, userId)) return;
+
+    if (db.select<LobbyBan>('lobby_bans', { lobby_id: lobbyId, player_id: userId }).length > 0) {
+      raise('You have been banned from this lobby', BANNED_ERROR);
+    }
+    if (playersOf(db, lobbyId).length >= lobby.max_players) {
+      raise(`This lobby is full (max ${lobby.max_players} players)`);
+    }
+    const match = { lobby_id: lobbyId, password: password ?? '' };
+    if (lobby.has_password && db.select<LobbyPassword>('lobby_passwords', match).length === 0) {
+      raise('Wrong password for this lobby', WRONG_PASSWORD_ERROR);
+    }
+
+    db.insert<LobbyPlayer>('lobby_players', {
+      lobby_id: lobbyId,
+      player_id: userId,
+      nickname,
+      is_ready: false,
+    });
+  },
+
+  set_join_password: (args, { db, userId }) => {
+    const { p_lobby_id: lobbyId, p_password: password } = args as {
+      p_lobby_id: string;
+      p_password: string | null;
+    };
+    if (!isLobbyHost(db, lobbyId, userId)) raise('Only the host can change the join password');
+
+    db.delete<LobbyPassword>('lobby_passwords', { lobby_id: lobbyId });
+    if (password) {
+      db.insert<LobbyPassword>('lobby_passwords', { lobby_id: lobbyId, password });
+    }
+    db.update<Lobby>('lobbies', { id: lobbyId }, { has_password: Boolean(password) });
+  },
+
+  // Remove a player before the game, and with p_ban keep them out
+  kick_player: (args, { db, userId }) => {
+    const {
+      p_lobby_id: lobbyId,
+      p_player_id: playerId,
+      p_ban: ban = false,
+    } = args as { p_lobby_id: string; p_player_id: string; p_ban?: boolean };
+
+    const lobby = db.select<Lobby>('lobbies', { id: lobbyId })[0];
+    if (!lobby || lobby.host_id !== userId) raise('Only the host can remove players');
+    if (playerId === lobby.host_id) raise('The host cannot remove themselves');
+    if (lobby.status !== 'waiting') raise('Players can only be removed before the game starts');
+
+    const seat = { lobby_id: lobbyId, player_id: playerId };
+    db.delete<LobbyPlayer>('lobby_players', seat);
+    db.delete<Heartbeat>('player_heartbeats', seat);
+    if (ban && db.select<LobbyBan>('lobby_bans', seat).length === 0) {
+      db.insert<LobbyBan>('lobby_bans', seat);
+    }
+
+    // Touch the lobby so every subscribed screen refetches, as the SQL does
+    db.update<Lobby>('lobbies', { id: lobbyId }, {});
+  },
+
+  touch_player: (args, context) => {
+    const { db, userId } = context;
+    const { p_lobby_id: lobbyId } = args as { p_lobby_id: string };
+    if (!isPlayerInLobby(db, lobbyId, userId)) return;
+
+    const heartbeat = { lobby_id: lobbyId, player_id: userId };
+    if (db.select<Heartbeat>('player_heartbeats', heartbeat).length > 0) {
+      db.update<Heartbeat>('player_heartbeats', heartbeat, { last_seen_at: timestamp(context) });
+    } else {
+      db.insert<Heartbeat>('player_heartbeats', heartbeat);
+    }
+  },
+
+  // Only the longest-waiting connected player may take over from a host who has gone quiet
+  claim_host: (args, { db, userId, now }) => {
+    const { p_lobby_id: lobbyId } = args as { p_lobby_id: string };
+    const { host_id: hostId } = getLobby(db, lobbyId);
+    if (hostId === userId) return true;
+
+    const lastSeen = (playerId: string) => {
+      const match = { lobby_id: lobbyId, player_id: playerId };
+      return db.select<Heartbeat>('player_heartbeats', match)[0]?.last_seen_at;
+    };
+    const isAlive = (seenAt: string | undefined) =>
+      seenAt !== undefined && now() - Date.parse(seenAt) < HOST_TIMEOUT_MS;
+
+    // A host with no heartbeat yet counts as seen when they joined or the game started
+    const host = playersOf(db, lobbyId).find((p) => p.player_id === hostId);
+    const secret = db.select<LobbySecret>('lobby_secrets', { lobby_id: lobbyId })[0];
+    const arrived = host && [host.joined_at, secret?.started_at ?? ''].sort()[1];
+    if (isAlive(host && (lastSeen(hostId) ?? arrived))) return false;
+
+    const successor = playersOf(db, lobbyId).find(
+      (p) => !p.is_bot && p.player_id !== hostId && isAlive(lastSeen(p.player_id))
+    );
+    if (successor?.player_id !== userId) return false;
+
+    db.update<Lobby>('lobbies', { id: lobbyId }, { host_id: userId });
+    return true;
+  },
+};
+
+/**
+ * Create a game server that lives in this process, for offline play and tests
+ * It is the Supabase stand-in from fakeSupabase.ts loaded with supabase-schema.sql's
+ * tables, policies and game functions (ported to the game logic), so every connected
+ * client runs the same code as on a real project: hands are private, turns are resolved
+ * on the server, stale moves are refused, and changes reach every client's subscriptions.
+ * now is the server clock, which tests can move forward to run out turn timers.
+ */
+export const createInMemoryServer = (now: () => number = Date.now): InMemoryServer => {
+  const supabase = createFakeSupabase({ tables: gameTables, functions: gameFunctions, now });
+
+  return {
+    connect: (userId) => createSupabaseBackend(supabase.connect(userId)),
+    client: supabase.connect,
+    db: supabase.db,
+  };
+};
@@ -0,0 +1,109 @@
+import type { AppStateStatus } from 'react-native';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { LobbyPresence, PlayerPresence, PresenceStatus } from '../types';
+
+// Where presence learns whether the app is in the foreground: React Native's AppState
+// in the app. Passed in rather than imported so backends also run under plain Node.
+export interface AppStateSource {
+  currentState: AppStateStatus;
+  addEventListener: (
+    type: 'change',
+    listener: (state: AppStateStatus) => void
+  ) => { remove: () => void };
+}
+
+// App state for clients with no app around them (tests, scripts): always in the foreground
+export const FOREGROUND_APP_STATE: AppStateSource = {
+  currentState: 'active',
+  addEventListener: () => ({ remove: () => {} }),
+};
+
+// What each device shares about itself on a channel
+interface PresencePayload {
+  status: PresenceStatus;
+  last_seen_at: string;
+}
+
+// How often "last seen" times are refreshed while nothing else changes
+const REFRESH_MS = 30000;
+
+// Helper to share this device's presence on a lobby or game channel and follow everyone else's
+// The channel must be created with `presence: { key: playerId }` and its other listeners
+// added; this subscribes it, and shares presence again after every reconnect.
+// Players backgrounding the app show as away; players who drop off the channel show as
+// offline, with the last time this device saw them. Returns a function that stops tracking.
+export const trackPresence = (
+  channel: RealtimeChannel,
+  appState: AppStateSource,
+  onChange: (presence: LobbyPresence) => void
+): (() => void) => {
+  const lastSeen: Record<string, string> = {};
+
+  const report = () => {
+    const state = channel.presenceState<PresencePayload>();
+    const now = new Date().toISOString();
+    const presence: LobbyPresence = {};
+
+    for (const [playerId, metas] of Object.entries(state)) {
+      // A player with the game open on several devices counts as online if any of them is
+      const online = metas.some((meta) => meta.status === 'online');
+      lastSeen[playerId] = online ? now : lastSeen[playerId] ?? metas[0]?.last_seen_at ?? now;
+      presence[playerId] = { status: online ? 'online' : 'away', lastSeenAt: lastSeen[playerId] };
+    }
+
+    for (const [playerId, lastSeenAt] of Object.entries(lastSeen)) {
+      if (!presence[playerId]) {
+        presence[playerId] = { status: 'offline', lastSeenAt };
+      }
+    }
+
+    onChange(presence);
+  };
+
+  const track = (appState: AppStateStatus) => {
+    const status: PresenceStatus = appState === 'active' ? 'online' : 'away';
+    channel.track({ status, last_seen_at: new Date().toISOString() }).catch((error) => {
+      console.error('Error sharing presence:', error);
+    });
+  };
+
+  channel.on('presence', { event: 'sync' }, report).subscribe((status) => {
+    if (status === 'SUBSCRIBED') {
+      track(appState.currentState);
+    }
+  });
+
+  const appStateSubscription = appState.addEventListener('change', track);
+  const refresh = setInterval(report, REFRESH_MS);
+
+  return () => {
+    appStateSubscription.remove();
+    clearInterval(refresh);
+  };
+};
+
+// Helper to look up one player's presence
+// Once presence has synced, players this device has never seen count as offline
+export const presenceOf = (
+  presence: LobbyPresence,
+  playerId: string
+): PlayerPresence | undefined => {
+  if (presence[playerId]) return presence[playerId];
+  return Object.keys(presence).length > 0 ? { status: 'offline', lastSeenAt: null } : undefined;
+};
+
+// Helper to count who is watching a game without a seat in it (spectators)
+export const countSpectators = (presence: LobbyPresence, playerIds: string[]): number => {
+  return Object.entries(presence).filter(
+    ([id, { status }]) => status !== 'offline' && !playerIds.includes(id)
+  ).length;
+};
+
+// Helper to describe how long ago a player was last seen, e.g. "2m ago"
+export const formatLastSeen = (lastSeenAt: string, now: number = Date.now()): string => {
+  const seconds = Math.max(0, Math.floor((now - new Date(lastSeenAt).getTime()) / 1000));
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+};
@@ -1,6 +1,8 @@
 import 'react-native-url-polyfill/auto';
+import { AppState } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createClient } from '@supabase/supabase-js';
+import { createSupabaseBackend } from './supabaseBackend';
 
 // Replace these with your actual Supabase credentials
 const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || 'YOUR_SUPABASE_URL';
@@ -20,10 +22,8 @@ export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
   },
 });
 
-// Helper to generate unique player ID
-export const generatePlayerId = (): string => {
-  return 'player_' + Math.random().toString(36).substring(2, 15);
-};
+// The backend the app plays on
+export const supabaseBackend = createSupabaseBackend(supabase, AppState);
 
 // Helper to generate lobby code
 export const generateLobbyCode = (): string => {
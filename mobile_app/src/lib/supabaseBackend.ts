@@ -0,0 +1,331 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PublicLobby } from '../types';
+import { GameBackend, LobbySnapshot } from './backend';
+import { AppStateSource, FOREGROUND_APP_STATE, trackPresence } from './presence';
+import { generateBotId } from '../utils/bots';
+
+// Helper to turn a failed Supabase request into a thrown error
+const check = <T>({ data, error }: { data: T; error: unknown }): T => {
+  if (error) {
+    throw error;
+  }
+  return data;
+};
+
+// How long the lobby browser lets a burst of changes settle before listing lobbies again
+const PUBLIC_LOBBIES_REFETCH_DELAY_MS = 300;
+
+// What a realtime change carries of a row (deletes carry only its id)
+type ChangedRow = { id?: string; lobby_id?: string; is_public?: boolean; status?: string };
+
+/**
+ * Play on a Supabase project: the tables and game functions in supabase-schema.sql
+ * The app passes its real client (see supabaseBackend in src/lib/supabase.ts); tests can
+ * pass the in-process stand-in from src/lib/fakeSupabase.ts instead.
+ * The app also passes React Native's AppState, so presence shows backgrounded players as away.
+ */
+export const createSupabaseBackend = (
+  supabase: SupabaseClient,
+  appState: AppStateSource = FOREGROUND_APP_STATE
+): GameBackend => {
+  // Difference between the database server's clock and this device's, in ms
+  let serverClockOffset = 0;
+  // Lobbies and seats the lobby browser last listed, so changes elsewhere don't refetch it
+  let listedLobbyIds = new Set<string>();
+  let listedSeatIds = new Set<string>();
+
+  return {
+    // Sign this device in anonymously (the session persists across launches)
+    // The signed-in user's ID is the player's ID everywhere
+    signIn: async () => {
+      const { data } = await supabase.auth.getSession();
+      if (data.session) {
+        return data.session.user.id;
+      }
+
+      const { data: signInData, error } = await supabase.auth.signInAnonymously();
+      if (error || !signInData.user) {
+        throw error || new Error('Anonymous sign-in returned no user');
+      }
+      return signInData.user.id;
+    },
+
+    claimLegacyPlayerId: async (legacyId) => {
+      check(await supabase.rpc('claim_player_id', { p_legacy_id: legacyId }));
+    },
+
+    // Line up this device's clock with the server's (for turn deadlines)
+    syncClock: async () => {
+      const sentAt = Date.now();
+      const { data, error } = await supabase.rpc('server_time');
+      if (error || !data) {
+        console.error('Error syncing server clock:', error);
+        return;
+      }
+      const receivedAt = Date.now();
+      serverClockOffset = new Date(data).getTime() - (sentAt + receivedAt) / 2;
+    },
+
+    now: () => Date.now() + serverClockOffset,
+
+    // Makes the lobby and seats its host in one step
+    createLobby: async (code, nickname, rules, isPublic) => {
+      return check(
+        await supabase.rpc('create_lobby', {
+          p_code: code,
+          p_nickname: nickname,
+          p_rules: rules,
+          p_is_public: isPublic,
+        })
+      );
+    },
+
+    findLobby: async (code) => {
+      return check(await supabase.from('lobbies').select('*').eq('code', code).maybeSingle());
+    },
+
+    fetchLobby: async (code): Promise<LobbySnapshot | null> => {
+      const lobby = check(
+        await supabase.from('lobbies').select('*').eq('code', code).maybeSingle()
+      );
+      if (!lobby) return null;
+
+      const players = check(
+        await supabase
+          .from('lobby_players')
+          .select('*')
+          .eq('lobby_id', lobby.id)
+          .order('joined_at', { ascending: true })
+      );
+
+      // Only the hands this device owns come back (see the player_hands policy)
+      const hands = check(await supabase.from('player_hands').select('*').eq('lobby_id', lobby.id));
+
+      return { lobby, players: players ?? [], hands: hands ?? [] };
+    },
+
+    countPlayers: async (lobbyId) => {
+      const { count, error } = await supabase
+        .from('lobby_players')
+        .select('*', { count: 'exact', head: true })
+        .eq('lobby_id', lobbyId);
+      if (error) {
+        throw error;
+      }
+      return count ?? 0;
+    },
+
+    isInLobby: async (lobbyId, playerId) => {
+      const player = check(
+        await supabase
+          .from('lobby_players')
+          .select('id')
+          .eq('lobby_id', lobbyId)
+          .eq('player_id', playerId)
+          .maybeSingle()
+      );
+      return player !== null;
+    },
+
+    joinLobby: async (lobbyId, nickname, password) => {
+      check(
+        await supabase.rpc('join_lobby', {
+          p_lobby_id: lobbyId,
+          p_nickname: nickname,
+          p_password: password ?? null,
+        })
+      );
+    },
+
+    // Leaves, hands over hosting and deletes a bots-only lobby in one step
+    leaveLobby: async (lobbyId) => {
+      check(await supabase.rpc('leave_lobby', { p_lobby_id: lobbyId }));
+    },
+
+    addBot: async (lobbyId, nickname, difficulty) => {
+      check(
+        await supabase.from('lobby_players').insert({
+          lobby_id: lobbyId,
+          player_id: generateBotId(),
+          nickname,
+          is_ready: true,
+          is_bot: true,
+          bot_difficulty: difficulty,
+        })
+      );
+    },
+
+    updateSettings: async (lobbyId, settings) => {
+      check(await supabase.from('lobbies').update(settings).eq('id', lobbyId));
+    },
+
+    // The password is hashed on the server and never sent back
+    setJoinPassword: async (lobbyId, password) => {
+      check(
+        await supabase.rpc('set_join_password', { p_lobby_id: lobbyId, p_password: password })
+      );
+    },
+
+    kickPlayer: async (lobbyId, playerId, ban) => {
+      check(
+        await supabase.rpc('kick_player', {
+          p_lobby_id: lobbyId,
+          p_player_id: playerId,
+          p_ban: ban,
+        })
+      );
+    },
+
+    subscribe: (lobby, playerId, { scope, onChange, onPresence }) => {
+      // Presence tracks who has the screen open, keyed by player ID
+      const channel = supabase.channel(`${scope}:${lobby.code}`, {
+        config: { presence: { key: playerId } },
+      });
+
+      for (const [table, filter] of [
+        ['lobbies', `id=eq.${lobby.id}`],
+        ['lobby_players', `lobby_id=eq.${lobby.id}`],
+        ['player_hands', `lobby_id=eq.${lobby.id}`],
+      ]) {
+        channel.on('postgres_changes', { event: '*', schema: 'public', table, filter }, onChange);
+      }
+
+      const stopTracking = onPresence ? trackPresence(channel, appState, onPresence) : null;
+      if (!stopTracking) {
+        channel.subscribe();
+      }
+
+      return () => {
+        stopTracking?.();
+        supabase.removeChannel(channel);
+      };
+    },
+
+    listPublicLobbies: async (): Promise<PublicLobby[]> => {
+      const lobbies = check(
+        await supabase
+          .from('lobbies')
+          .select('*')
+          .eq('is_public', true)
+          .eq('status', 'waiting')
+          .order('created_at', { ascending: false })
+      );
+      // Only this player's own bans come back (see the lobby_bans policy)
+      const bans = check(await supabase.from('lobby_bans').select('lobby_id'));
+      const open = (lobbies ?? []).filter((lobby) => !bans?.some((b) => b.lobby_id === lobby.id));
+      listedLobbyIds = new Set(open.map((lobby) => lobby.id));
+      listedSeatIds = new Set();
+      if (!open.length) return [];
+
+      const players = check(
+        await supabase
+          .from('lobby_players')
+          .select('id, lobby_id, player_id, nickname')
+          .in('lobby_id', open.map((lobby) => lobby.id))
+      );
+      listedSeatIds = new Set((players ?? []).map((player) => player.id));
+
+      return open.map((lobby) => {
+        const members = (players ?? []).filter((player) => player.lobby_id === lobby.id);
+        const host = members.find((player) => player.player_id === lobby.host_id);
+        return { lobby, playerCount: members.length, hostNickname: host?.nickname ?? null };
+      });
+    },
+
+    // Listen to the lobbies that are, or may become, listed: realtime takes one filter per
+    // listener, so public lobbies (which may start) and waiting ones (which may go public or
+    // private) each get one, and the rest is checked here. Seats only count in listed lobbies.
+    // A burst of changes, like a lobby filling up, lists lobbies once.
+    subscribePublicLobbies: (onChange) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const refetch = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+          timer = null;
+          onChange();
+        }, PUBLIC_LOBBIES_REFETCH_DELAY_MS);
+      };
+
+      const onLobbyChange = ({ new: lobby, old }: { new: ChangedRow; old: ChangedRow }) => {
+        const isListable = lobby.is_public === true && lobby.status === 'waiting';
+        if (isListable || listedLobbyIds.has((lobby.id ?? old.id)!)) refetch();
+      };
+      const onSeatChange = ({ new: seat, old }: { new: ChangedRow; old: ChangedRow }) => {
+        const lobbyId = seat.lobby_id ?? old.lobby_id;
+        if (lobbyId ? listedLobbyIds.has(lobbyId) : listedSeatIds.has(old.id!)) refetch();
+      };
+
+      const channel = supabase.channel('public-lobbies');
+      for (const filter of ['is_public=eq.true', 'status=eq.waiting']) {
+        const lobbies = { event: '*', schema: 'public', table: 'lobbies', filter } as const;
+        channel.on('postgres_changes', lobbies, onLobbyChange);
+      }
+      // Deleted rows carry only their id, so no filter can match them
+      channel.on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'lobbies' },
+        onLobbyChange
+      );
+      channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lobby_players' },
+        onSeatChange
+      );
+      channel.subscribe();
+
+      return () => {
+        if (timer) clearTimeout(timer);
+        supabase.removeChannel(channel);
+      };
+    },
+
+    // The server deals, so no device ever sees another player's hand
+    startGame: async (lobbyId) => {
+      check(await supabase.rpc('start_game', { p_lobby_id: lobbyId }));
+    },
+
+    submitSelection: async (lobbyId, playerId, card, expectedVersion) => {
+      check(
+        await supabase.rpc('submit_selection', {
+          p_lobby_id: lobbyId,
+          p_player_id: playerId,
+          p_card: card,
+          p_expected_version: expectedVersion,
+        })
+      );
+    },
+
+    chooseRow: async (lobbyId, playerId, rowIndex, expectedVersion) => {
+      check(
+        await supabase.rpc('choose_row', {
+          p_lobby_id: lobbyId,
+          p_player_id: playerId,
+          p_row_index: rowIndex,
+          p_expected_version: expectedVersion,
+        })
+      );
+    },
+
+    resolveTurn: async (lobbyId, expectedVersion) => {
+      check(
+        await supabase.rpc('resolve_turn', {
+          p_lobby_id: lobbyId,
+          p_expected_version: expectedVersion,
+        })
+      );
+    },
+
+    // Scores, hands and the game state are reset together on the server
+    resetLobby: async (lobbyId) => {
+      check(await supabase.rpc('reset_lobby', { p_lobby_id: lobbyId }));
+    },
+
+    touchPlayer: async (lobbyId) => {
+      check(await supabase.rpc('touch_player', { p_lobby_id: lobbyId }));
+    },
+
+    claimHost: async (lobbyId) => {
+      return Boolean(check(await supabase.rpc('claim_host', { p_lobby_id: lobbyId })));
+    },
+  };
+};
@@ -7,519 +7,372 @@ import {
   ScrollView,
   Alert,
   Modal,
-  Animated,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
 import { Button, GameCard, TableRow, PlayerCard } from '../components';
 import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../lib/theme';
 import { usePlayer } from '../context/PlayerContext';
-import { supabase } from '../lib/supabase';
+import { useBackend } from '../context/BackendContext';
+import { isStaleStateError } from '../lib/backend';
+import { presenceOf, countSpectators } from '../lib/presence';
 import {
   RootStackParamList,
   LobbyPlayer,
+  PlayerHand,
   Lobby,
   GameState,
   Card,
-  TableRow as TableRowType,
-  RevealedCard,
+  LobbyPresence,
 } from '../types';
-import {
-  findRowForCard,
-  placeCardInRow,
-  takeRow,
-  sortRevealedCards,
-  isGameOver,
-  getWinner,
-  initializeGame,
-  startNewRound,
-} from '../utils/gameLogic';
+import { chooseBotCard, chooseBotRow } from '../utils/bots';
 
 type GameScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Game'>;
 type GameScreenRouteProp = RouteProp<RootStackParamList, 'Game'>;
 
+// How often a client asks the server to resolve a turn whose deadline has passed
+const RESOLVE_RETRY_MS = 2000;
+
+// How often a client tells the server it is still connected (see touch_player)
+const HEARTBEAT_MS = 5000;
+
+// How long the host may be gone before another player takes over (see claim_host)
+const HOST_TIMEOUT_MS = 20000;
+
 interface GameScreenProps {
   navigation: GameScreenNavigationProp;
   route: GameScreenRouteProp;
 }
 
 export const GameScreen: React.FC<GameScreenProps> = ({ navigation, route }) => {
-  const { lobbyCode } = route.params;
-  const { playerId } = usePlayer();
+  const { lobbyCode, spectating = false } = route.params;
+  const { playerId, setActiveLobbyCode } = usePlayer();
+  const backend = useBackend();
 
   const [lobby, setLobby] = useState<Lobby | null>(null);
   const [players, setPlayers] = useState<LobbyPlayer[]>([]);
+  // Hands this device may see: its own, plus the bots' when hosting
+  const [hands, setHands] = useState<PlayerHand[]>([]);
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [selectedCard, setSelectedCard] = useState<Card | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [showRowSelection, setShowRowSelection] = useState(false);
-  const [pendingCard, setPendingCard] = useState<Card | null>(null);
   const [showGameOver, setShowGameOver] = useState(false);
   const [winner, setWinner] = useState<LobbyPlayer | null>(null);
-  const [revealCountdown, setRevealCountdown] = useState<number | null>(null);
-  const [localRevealedCards, setLocalRevealedCards] = useState<RevealedCard[]>([]);
+  const [turnSecondsLeft, setTurnSecondsLeft] = useState<number | null>(null);
+  // Who has this game open right now, from realtime presence
+  const [presence, setPresence] = useState<LobbyPresence>({});
 
-  // Animation values for revealed cards
-  const cardAnimations = useRef<Animated.Value[]>([]).current;
+  // Newest state_version seen, so a slow fetch can't replace a newer state with an older one
+  const latestStateVersion = useRef(-1);
 
   const currentPlayer = players.find((p) => p.player_id === playerId);
+  const myHand = hands.find((h) => h.player_id === playerId);
   const isHost = lobby?.host_id === playerId;
 
   // Fetch game data
-  const fetchGameData = useCallback(async () => {
+  const fetchGameData = useCallback(async (): Promise<Lobby | null> => {
+    let snapshot;
     try {
-      const { data: lobbyData, error: lobbyError } = await supabase
-        .from('lobbies')
-        .select('*')
-        .eq('code', lobbyCode)
-        .single();
-
-      if (lobbyError) {
-        console.error('Error fetching lobby:', lobbyError);
-        // Don't immediately navigate away on error - could be temporary network issue
-        if (lobbyError.code === 'PGRST116') {
-          // No rows found - lobby actually doesn't exist
-          Alert.alert('Game Not Found', 'This game no longer exists.');
-          navigation.goBack();
-        } else {
-          // Network or other error - show message but don't navigate away
-          Alert.alert('Connection Error', 'Unable to connect to the game. Please check your connection and try again.');
-        }
-        return;
-      }
+      snapshot = await backend.fetchLobby(lobbyCode);
+    } catch (error) {
+      console.error('Error fetching game data:', error);
+      // Don't navigate away on error - could be temporary network issue
+      Alert.alert('Connection Error', 'Unable to connect to the game. Please check your connection and try again.');
+      return null;
+    }
 
-      if (!lobbyData) {
-        Alert.alert('Game Not Found', 'This game no longer exists.');
-        navigation.goBack();
-        return;
-      }
+    if (!snapshot) {
+      // No rows found - lobby actually doesn't exist
+      if (!spectating) setActiveLobbyCode(null);
+      Alert.alert('Game Not Found', 'This game no longer exists.');
+      navigation.goBack();
+      return null;
+    }
 
-      setLobby(lobbyData);
-      setGameState(lobbyData.game_state);
+    const { lobby: lobbyData, players: playersData, hands: handsData } = snapshot;
 
-      const { data: playersData, error: playersError } = await supabase
-        .from('lobby_players')
-        .select('*')
-        .eq('lobby_id', lobbyData.id)
-        .order('joined_at', { ascending: true });
+    if (lobbyData.state_version < latestStateVersion.current) return lobbyData;
+    latestStateVersion.current = lobbyData.state_version;
 
-      if (playersError) {
-        console.error('Error fetching players:', playersError);
-        return;
-      }
+    setLobby(lobbyData);
+    setGameState(lobbyData.game_state);
+    setPlayers(playersData);
+    setHands(handsData);
 
-      setPlayers(playersData || []);
-
-      // Check for game over
-      if (lobbyData.game_state?.phase === 'finished') {
-        const playerList = playersData?.map((p) => ({
-          id: p.id,
-          nickname: p.nickname,
-          score: p.score,
-          hand: p.hand,
-          isHost: lobbyData.host_id === p.player_id,
-          isReady: p.is_ready,
-          selectedCard: p.selected_card,
-        }));
-        if (playerList) {
-          const winnerData = playersData?.reduce((prev, curr) =>
-            prev.score < curr.score ? prev : curr
-          );
-          setWinner(winnerData || null);
-          setShowGameOver(true);
-        }
-      }
-    } catch (error) {
-      console.error('Error fetching game data:', error);
+    // Check for game over
+    if (lobbyData.game_state?.phase === 'finished' && playersData.length) {
+      const winnerData = playersData.reduce((prev, curr) =>
+        prev.score < curr.score ? prev : curr
+      );
+      setWinner(winnerData);
+      setShowGameOver(true);
+      // Nothing left to resume once the game is over
+      if (!spectating) setActiveLobbyCode(null);
     }
-  }, [lobbyCode, navigation]);
+
+    return lobbyData;
+  }, [lobbyCode, spectating, navigation, setActiveLobbyCode, backend]);
+
+  // Remember this game, so the app can offer to come back to it after a restart
+  // (a card already chosen is kept on the server, so it comes back selected)
+  useEffect(() => {
+    if (!spectating) setActiveLobbyCode(lobbyCode);
+  }, [lobbyCode, spectating, setActiveLobbyCode]);
 
   // Set up real-time subscription
   useEffect(() => {
-    let channel: ReturnType<typeof supabase.channel> | null = null;
+    let unsubscribe: (() => void) | null = null;
+    let isMounted = true;
 
     const setupSubscription = async () => {
       // First fetch initial data
-      await fetchGameData();
-
-      // Get lobby ID for filtering
-      const { data: lobbyData } = await supabase
-        .from('lobbies')
-        .select('id')
-        .eq('code', lobbyCode)
-        .single();
-
-      if (!lobbyData) return;
-
-      // Set up subscription with proper filters
-      channel = supabase
-        .channel(`game:${lobbyCode}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'lobbies',
-            filter: `code=eq.${lobbyCode}`,
-          },
-          () => {
-            fetchGameData();
-          }
-        )
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'lobby_players',
-            filter: `lobby_id=eq.${lobbyData.id}`,
-          },
-          () => {
-            fetchGameData();
-          }
-        )
-        .subscribe();
+      await backend.syncClock();
+      const lobbyData = await fetchGameData();
+      if (!lobbyData || !isMounted) return;
+
+      // Refetch on any change to the lobby, its players or the visible hands;
+      // presence tracks who has the game open
+      unsubscribe = backend.subscribe(lobbyData, playerId, {
+        scope: 'game',
+        onChange: fetchGameData,
+        onPresence: setPresence,
+      });
     };
 
     setupSubscription();
 
     return () => {
-      if (channel) {
-        supabase.removeChannel(channel);
-      }
+      isMounted = false;
+      unsubscribe?.();
     };
-  }, [lobbyCode, fetchGameData]);
+  }, [playerId, fetchGameData, backend]);
 
-  // Check if all players have selected cards
+  // Tell the server this player is still here, so no one takes over while they host
   useEffect(() => {
-    const checkAllSelected = async () => {
-      // Guard: Need valid state and at least 2 players loaded
-      if (!gameState || !lobby || gameState.phase !== 'selecting') return;
-      if (players.length < 2) return; // Prevent processing before players are loaded
-
-      const allSelected = players.every((p) => p.selected_card !== null);
+    if (!lobby?.id || spectating) return;
 
-      if (allSelected && isHost && !isProcessing) {
-        // Move to revealing phase
-        await processRevealAndPlace();
-      }
+    const touch = () => {
+      backend.touchPlayer(lobby.id).catch((error) => {
+        console.error('Error sending heartbeat:', error);
+      });
     };
 
-    checkAllSelected();
-  }, [players, gameState, isHost, isProcessing, lobby]);
+    touch();
+    const interval = setInterval(touch, HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [lobby?.id, spectating, backend]);
 
-  const handleSelectCard = async (card: Card) => {
-    if (!currentPlayer || !lobby || gameState?.phase !== 'selecting') return;
+  // Host migration: when the host is not online (gone, or backgrounded) for HOST_TIMEOUT_MS, the
+  // longest-waiting connected player claims hosting (the server checks the host's
+  // last heartbeat and picks the same player, so only one claim succeeds).
+  // Turns already resolve on the server, so the new host only picks up the bots,
+  // carrying on from the persisted game state, mid-reveal or not.
+  const hostMissingSince = useRef<number | null>(null);
 
-    // Toggle selection
-    const newSelection = selectedCard?.number === card.number ? null : card;
-    setSelectedCard(newSelection);
-
-    try {
-      await supabase
-        .from('lobby_players')
-        .update({ selected_card: newSelection })
-        .eq('id', currentPlayer.id);
-    } catch (error) {
-      console.error('Error selecting card:', error);
-    }
-  };
-
-  // Start the reveal phase - show all cards first, then place them after 5 seconds
-  const processRevealAndPlace = async () => {
-    if (!lobby || !gameState || isProcessing) return;
+  useEffect(() => {
+    const isOnline = (id: string) => presence[id]?.status === 'online';
 
-    // Additional guard: ensure we have valid players data
-    if (players.length < 2) {
-      console.warn('processRevealAndPlace called with insufficient players');
+    if (!lobby || isHost || !isOnline(playerId) || isOnline(lobby.host_id)) {
+      hostMissingSince.current = null;
       return;
     }
 
-    setIsProcessing(true);
+    const successor = players.find(
+      (p) => !p.is_bot && p.player_id !== lobby.host_id && isOnline(p.player_id)
+    );
+    if (successor?.player_id !== playerId) return;
 
-    try {
-      // Get all selected cards with player names
-      const revealed: RevealedCard[] = players
-        .filter((p) => p.selected_card)
-        .map((p) => ({
-          playerId: p.player_id,
-          playerName: p.nickname,
-          card: p.selected_card as Card,
-        }));
-
-      // Sort by card number (lowest first)
-      const sorted = sortRevealedCards(revealed) as RevealedCard[];
-
-      // Update game state to revealing phase with the revealed cards
-      const revealingState: GameState = {
-        ...gameState,
-        phase: 'revealing',
-        revealedCards: sorted,
-      };
-
-      await supabase
-        .from('lobbies')
-        .update({ game_state: revealingState })
-        .eq('id', lobby.id);
-
-      // Store revealed cards locally for display
-      setLocalRevealedCards(sorted);
-
-      // Start countdown
-      setRevealCountdown(5);
-
-      // Wait 5 seconds before placing cards
-      await new Promise<void>((resolve) => {
-        let countdown = 5;
-        const interval = setInterval(() => {
-          countdown--;
-          setRevealCountdown(countdown);
-          if (countdown <= 0) {
-            clearInterval(interval);
-            setRevealCountdown(null);
-            resolve();
-          }
-        }, 1000);
-      });
+    hostMissingSince.current ??= Date.now();
 
-      // Now process the card placements
-      await processCardPlacements(sorted);
+    const tryClaim = () => {
+      if (Date.now() - (hostMissingSince.current ?? Date.now()) < HOST_TIMEOUT_MS) return;
 
-    } catch (error) {
-      console.error('Error processing cards:', error);
-    } finally {
-      setIsProcessing(false);
-    }
-  };
+      backend
+        .claimHost(lobby.id)
+        .then((claimed) => {
+          if (claimed) fetchGameData();
+        })
+        .catch((error) => {
+          console.error('Error claiming host:', error);
+        });
+    };
 
-  // Process card placements after reveal phase
-  const processCardPlacements = async (sorted: RevealedCard[]) => {
-    if (!lobby || !gameState) return;
+    tryClaim();
+    const interval = setInterval(tryClaim, HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [lobby?.id, lobby?.host_id, isHost, presence, players, playerId, fetchGameData, backend]);
 
-    let currentRows = [...gameState.tableRows];
-    const playerScoreUpdates: { [playerId: string]: number } = {};
-    const cardsNeedingRowSelection: RevealedCard[] = [];
+  // Keep the highlighted card in step with the server (it clears once the turn is played)
+  useEffect(() => {
+    setSelectedCard(myHand?.selected_card ?? null);
+  }, [myHand?.selected_card?.number]);
 
-    // First pass: identify cards that need row selection and place normal cards
-    for (const revealedCard of sorted) {
-      const { playerId: pid, card } = revealedCard;
-      const rowIndex = findRowForCard(card, currentRows);
+  // Choose (or take back) this player's card; the server reveals once everyone has chosen
+  const handleSelectCard = async (card: Card) => {
+    if (!currentPlayer || !lobby || gameState?.phase !== 'selecting') return;
 
-      if (rowIndex === -1) {
-        // Card is lower than all rows - player must choose a row
-        cardsNeedingRowSelection.push(revealedCard);
+    // Toggle selection
+    const newSelection = selectedCard?.number === card.number ? null : card;
+    setSelectedCard(newSelection);
+
+    try {
+      await backend.submitSelection(lobby.id, playerId, newSelection, lobby.state_version);
+    } catch (error) {
+      setSelectedCard(myHand?.selected_card ?? null);
+      if (isStaleStateError(error)) {
+        fetchGameData();
       } else {
-        // Place card in the appropriate row
-        const { newRows, pigsTaken } = placeCardInRow(card, rowIndex, currentRows);
-        currentRows = newRows;
-        if (pigsTaken !== 0) {
-          playerScoreUpdates[pid] = (playerScoreUpdates[pid] || 0) + pigsTaken;
-        }
+        console.error('Error selecting card:', error);
       }
     }
+  };
 
-    // Handle cards that need row selection one by one
-    for (const revealedCard of cardsNeedingRowSelection) {
-      const { playerId: pid, playerName, card } = revealedCard;
-
-      if (pid === playerId) {
-        // Current player needs to select a row
-        setPendingCard(card);
-
-        // Update game state to row_selection phase
-        const rowSelectionState: GameState = {
-          ...gameState,
-          phase: 'row_selection',
-          tableRows: currentRows,
-          pendingRowSelection: { playerId: pid, playerName, card },
-        };
-
-        await supabase
-          .from('lobbies')
-          .update({ game_state: rowSelectionState })
-          .eq('id', lobby.id);
-
-        setShowRowSelection(true);
-
-        // Wait for player to select a row
-        const selectedRowIndex = await waitForRowSelection();
-
-        const { newRows, pigsTaken } = takeRow(card, selectedRowIndex, currentRows);
-        currentRows = newRows;
-        playerScoreUpdates[pid] = (playerScoreUpdates[pid] || 0) + pigsTaken;
+  // Host: play for the bot seats, once per decision
+  // Works from the persisted state alone, so a host who took over mid-turn carries on
+  const botDecisionsMade = useRef<Set<string>>(new Set()).current;
 
-        setShowRowSelection(false);
-        setPendingCard(null);
-      } else {
-        // Another player needs to select - for now, auto-select smallest row
-        // In a full implementation, you'd wait for that player's selection via realtime
-        let minPigs = Infinity;
-        let minIndex = 0;
-        for (let i = 0; i < currentRows.length; i++) {
-          const pigs = currentRows[i].cards.reduce((sum, c) => sum + c.pigs, 0);
-          if (pigs < minPigs) {
-            minPigs = pigs;
-            minIndex = i;
+  useEffect(() => {
+    const playBots = async () => {
+      if (!gameState || !lobby || !isHost) return;
+
+      try {
+        if (gameState.phase === 'selecting') {
+          for (const bot of players) {
+            const botHand = hands.find((h) => h.lobby_player_id === bot.id)?.hand ?? [];
+            if (!bot.is_bot || bot.has_selected || botHand.length === 0) continue;
+
+            const decisionKey = `${bot.id}:card:${gameState.round}:${botHand.length}`;
+            if (botDecisionsMade.has(decisionKey)) continue;
+            botDecisionsMade.add(decisionKey);
+
+            const card = chooseBotCard(bot.bot_difficulty ?? 'greedy', {
+              hand: botHand,
+              tableRows: gameState.tableRows,
+              rules: gameState.rules,
+              numPlayers: players.length,
+            });
+
+            // One bot's stale move shouldn't hold up the others; forget it so the
+            // next state update plays that bot again
+            await backend
+              .submitSelection(lobby.id, bot.player_id, card, lobby.state_version)
+              .catch((error) => {
+                botDecisionsMade.delete(decisionKey);
+                if (!isStaleStateError(error)) throw error;
+              });
           }
+        } else if (gameState.phase === 'row_selection' && gameState.pendingRowSelection) {
+          const bot = players.find(
+            (p) => p.is_bot && p.player_id === gameState.pendingRowSelection?.playerId
+          );
+          if (!bot || bot.row_choice !== null) return;
+
+          const cardsLeft = hands.find((h) => h.lobby_player_id === bot.id)?.hand.length ?? 0;
+          const decisionKey = `${bot.id}:row:${gameState.round}:${cardsLeft}`;
+          if (botDecisionsMade.has(decisionKey)) return;
+          botDecisionsMade.add(decisionKey);
+
+          await backend
+            .chooseRow(
+              lobby.id,
+              bot.player_id,
+              chooseBotRow(bot.bot_difficulty ?? 'greedy', gameState.tableRows),
+              lobby.state_version
+            )
+            .catch((error) => {
+              botDecisionsMade.delete(decisionKey);
+              if (!isStaleStateError(error)) throw error;
+            });
         }
-
-        const { newRows, pigsTaken } = takeRow(card, minIndex, currentRows);
-        currentRows = newRows;
-        playerScoreUpdates[pid] = (playerScoreUpdates[pid] || 0) + pigsTaken;
+      } catch (error) {
+        console.error('Error playing bot turn:', error);
       }
-    }
+    };
 
-    // Update player scores and remove selected cards from hands
-    for (const player of players) {
-      const scoreUpdate = playerScoreUpdates[player.player_id] || 0;
-      const newHand = player.hand.filter(
-        (c) => c.number !== player.selected_card?.number
-      );
+    playBots();
+  }, [players, hands, gameState, isHost, lobby, backend]);
 
-      await supabase
-        .from('lobby_players')
-        .update({
-          score: player.score + scoreUpdate,
-          hand: newHand,
-          selected_card: null,
-        })
-        .eq('id', player.id);
-    }
+  // Count down to the current turn deadline
+  // Once it passes, ask the server to move the game on (it plays for anyone out of
+  // time and places revealed cards); every client asks, so no one device is needed
+  const lastResolveRequest = useRef(0);
 
-    // Check if round is over (all hands empty)
-    const allHandsEmpty = players.length > 0 && players.every(
-      (p) => p.hand.filter((c) => c.number !== p.selected_card?.number).length === 0
-    );
-
-    // Check for game over
-    const updatedPlayers = players.map((p) => ({
-      ...p,
-      score: p.score + (playerScoreUpdates[p.player_id] || 0),
-    }));
-
-    const gameOver = updatedPlayers.some((p) => p.score >= 66);
-
-    let newGameState: GameState;
-
-    if (gameOver) {
-      newGameState = {
-        ...gameState,
-        phase: 'finished',
-        tableRows: currentRows,
-        revealedCards: [],
-        pendingPlacements: [],
-        pendingRowSelection: null,
-      };
-    } else if (allHandsEmpty) {
-      // Start a new round - KEEP THE EXISTING TABLE ROWS
-      const { hands } = startNewRound(players.length, currentRows);
-
-      newGameState = {
-        phase: 'selecting',
-        round: gameState.round + 1,
-        tableRows: currentRows, // Keep existing rows!
-        currentPlayerIndex: 0,
-        revealedCards: [],
-        pendingPlacements: [],
-        lastAction: null,
-        pendingRowSelection: null,
-      };
-
-      // Deal new cards
-      for (let i = 0; i < players.length; i++) {
-        await supabase
-          .from('lobby_players')
-          .update({
-            hand: hands[i],
-            selected_card: null,
-          })
-          .eq('id', players[i].id);
-      }
-    } else {
-      newGameState = {
-        ...gameState,
-        phase: 'selecting',
-        tableRows: currentRows,
-        revealedCards: [],
-        pendingPlacements: [],
-        pendingRowSelection: null,
-      };
+  useEffect(() => {
+    const deadline = gameState?.turnDeadline;
+    if (!deadline || !lobby) {
+      setTurnSecondsLeft(null);
+      return;
     }
 
-    // Update game state
-    await supabase
-      .from('lobbies')
-      .update({ game_state: newGameState })
-      .eq('id', lobby.id);
+    const tick = () => {
+      const msLeft = new Date(deadline).getTime() - backend.now();
+      setTurnSecondsLeft(Math.max(0, Math.ceil(msLeft / 1000)));
 
-    setSelectedCard(null);
-    setLocalRevealedCards([]);
-  };
+      if (msLeft <= 0 && Date.now() - lastResolveRequest.current >= RESOLVE_RETRY_MS) {
+        lastResolveRequest.current = Date.now();
+        backend.resolveTurn(lobby.id, lobby.state_version).catch((error) => {
+          console.error('Error resolving turn:', error);
+        });
+      }
+    };
 
-  // Helper to wait for row selection
-  const rowSelectionResolver = useRef<((index: number) => void) | null>(null);
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [gameState?.turnDeadline, lobby?.id, lobby?.state_version, backend]);
 
-  const waitForRowSelection = (): Promise<number> => {
-    return new Promise((resolve) => {
-      rowSelectionResolver.current = resolve;
-    });
-  };
+  const pendingRowSelection =
+    gameState?.phase === 'row_selection' ? gameState.pendingRowSelection ?? null : null;
+  const showRowSelection =
+    pendingRowSelection?.playerId === playerId && currentPlayer?.row_choice === null;
 
-  const handleSelectRow = (rowIndex: number) => {
-    if (!pendingCard) return;
+  // Send this player's row choice; the server places the rest of the turn
+  const handleSelectRow = async (rowIndex: number) => {
+    if (!lobby || !showRowSelection) return;
 
-    // If we have a resolver waiting, use it (new flow)
-    if (rowSelectionResolver.current) {
-      rowSelectionResolver.current(rowIndex);
-      rowSelectionResolver.current = null;
-      return;
+    try {
+      await backend.chooseRow(lobby.id, playerId, rowIndex, lobby.state_version);
+    } catch (error) {
+      if (isStaleStateError(error)) {
+        fetchGameData();
+      } else {
+        console.error('Error choosing row:', error);
+      }
     }
-
-    // Fallback for legacy flow (shouldn't be needed but kept for safety)
-    console.warn('handleSelectRow called without resolver');
   };
 
   const handleReturnToLobby = async () => {
     if (!lobby) return;
 
+    // Scores, hands and the game state are reset together on the server
     try {
-      // Reset game state
-      await supabase
-        .from('lobbies')
-        .update({
-          status: 'waiting',
-          game_state: null,
-        })
-        .eq('id', lobby.id);
-
-      // Reset player scores and hands
-      for (const player of players) {
-        await supabase
-          .from('lobby_players')
-          .update({
-            score: 0,
-            hand: [],
-            selected_card: null,
-            is_ready: player.player_id === lobby.host_id,
-          })
-          .eq('id', player.id);
-      }
-
-      navigation.replace('Lobby', { lobbyCode, isHost });
+      await backend.resetLobby(lobby.id);
     } catch (error) {
       console.error('Error returning to lobby:', error);
+      return;
     }
+
+    navigation.replace('Lobby', { lobbyCode, isHost });
   };
 
-  const playersWhoSelected = players.filter((p) => p.selected_card !== null).length;
+  const playersWhoSelected = players.filter((p) => p.has_selected).length;
   const allSelected = playersWhoSelected === players.length;
+  // Spectators share presence on the game channel too, without a seat
+  const spectatorCount = countSpectators(presence, players.map((p) => p.player_id));
 
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.headerTitle}>🐷 66 Pigs</Text>
-        <Text style={styles.roundText}>Round {gameState?.round || 1}</Text>
+        <View style={styles.headerRight}>
+          <Text style={styles.roundText}>
+            Round {gameState?.round || 1}
+            {gameState?.handSize ? ` • ${gameState.handSize} cards` : ''}
+          </Text>
+          {spectatorCount > 0 && (
+            <Text style={styles.spectatorCount}>👀 {spectatorCount} watching</Text>
+          )}
+        </View>
       </View>
 
       {/* Players Score Bar */}
@@ -535,7 +388,9 @@ export const GameScreen: React.FC<GameScreenProps> = ({ navigation, route }) =>
               nickname={player.nickname}
               score={player.score}
               isCurrentPlayer={player.player_id === playerId}
-              hasSelectedCard={player.selected_card !== null}
+              isBot={player.is_bot}
+              hasSelectedCard={player.has_selected}
+              presence={player.is_bot ? undefined : presenceOf(presence, player.player_id)}
               compact
             />
           </View>
@@ -543,13 +398,13 @@ export const GameScreen: React.FC<GameScreenProps> = ({ navigation, route }) =>
       </ScrollView>
 
       {/* Revealed Cards Display - Show during revealing phase */}
-      {(gameState?.phase === 'revealing' || localRevealedCards.length > 0) && (
+      {(gameState?.phase === 'revealing' || gameState?.phase === 'row_selection') && (
         <View style={styles.revealedCardsContainer}>
           <View style={styles.revealedCardsHeader}>
             <Text style={styles.revealedCardsTitle}>Cards Revealed!</Text>
-            {revealCountdown !== null && (
+            {gameState.phase === 'revealing' && turnSecondsLeft !== null && (
               <Text style={styles.countdownText}>
-                Placing in {revealCountdown}...
+                Placing in {turnSecondsLeft}...
               </Text>
             )}
           </View>
@@ -558,7 +413,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ navigation, route }) =>
             showsHorizontalScrollIndicator={false}
             contentContainerStyle={styles.revealedCardsContent}
           >
-            {(localRevealedCards.length > 0 ? localRevealedCards : gameState?.revealedCards || []).map((revealed, index) => (
+            {gameState.revealedCards.map((revealed) => (
               <View key={revealed.card.number} style={styles.revealedCardWrapper}>
                 <GameCard
                   card={revealed.card}
@@ -584,6 +439,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ navigation, route }) =>
             rowIndex={index}
             selectable={showRowSelection}
             onPress={() => handleSelectRow(index)}
+            rules={gameState.rules}
           />
         ))}
 
@@ -593,7 +449,9 @@ export const GameScreen: React.FC<GameScreenProps> = ({ navigation, route }) =>
             <Text style={styles.statusText}>
               {selectedCard
                 ? `You selected card ${selectedCard.number}. Waiting for others...`
-                : 'Select a card from your hand'}
+                : spectating
+                  ? 'Players are choosing their cards...'
+                  : 'Select a card from your hand'}
             </Text>
           )}
           {gameState?.phase === 'selecting' && allSelected && (
@@ -616,33 +474,50 @@ export const GameScreen: React.FC<GameScreenProps> = ({ navigation, route }) =>
               {playersWhoSelected}/{players.length} players ready
             </Text>
           )}
+          {turnSecondsLeft !== null && gameState?.phase !== 'revealing' && (
+            <Text style={[styles.turnTimer, turnSecondsLeft <= 10 && styles.turnTimerUrgent]}>
+              ⏱ {turnSecondsLeft}s left
+            </Text>
+          )}
         </View>
       </ScrollView>
 
-      {/* Player's Hand */}
-      <View style={styles.handContainer}>
-        <Text style={styles.handLabel}>Your Hand</Text>
-        <ScrollView
-          horizontal
-          showsHorizontalScrollIndicator={false}
-          contentContainerStyle={styles.hand}
-        >
-          {currentPlayer?.hand
-            .slice()
-            .sort((a, b) => a.number - b.number)
-            .map((card) => (
-              <View key={card.number} style={styles.cardWrapper}>
-                <GameCard
-                  card={card}
-                  onPress={() => handleSelectCard(card)}
-                  selected={selectedCard?.number === card.number}
-                  disabled={gameState?.phase !== 'selecting' || isProcessing}
-                  size="md"
-                />
-              </View>
-            ))}
-        </ScrollView>
-      </View>
+      {/* Player's Hand (spectators see no hands) */}
+      {spectating ? (
+        <View style={styles.spectatorBar}>
+          <Text style={styles.spectatorText}>👀 You're watching. Hands stay hidden.</Text>
+          <Button
+            title="Stop Watching"
+            onPress={() => navigation.goBack()}
+            variant="outline"
+            size="sm"
+          />
+        </View>
+      ) : (
+        <View style={styles.handContainer}>
+          <Text style={styles.handLabel}>Your Hand</Text>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.hand}
+          >
+            {myHand?.hand
+              .slice()
+              .sort((a, b) => a.number - b.number)
+              .map((card) => (
+                <View key={card.number} style={styles.cardWrapper}>
+                  <GameCard
+                    card={card}
+                    onPress={() => handleSelectCard(card)}
+                    selected={selectedCard?.number === card.number}
+                    disabled={gameState?.phase !== 'selecting'}
+                    size="md"
+                  />
+                </View>
+              ))}
+          </ScrollView>
+        </View>
+      )}
 
       {/* Row Selection Modal */}
       <Modal visible={showRowSelection} transparent animationType="fade">
@@ -650,7 +525,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ navigation, route }) =>
           <View style={styles.modalContent}>
             <Text style={styles.modalTitle}>Choose a Row to Take</Text>
             <Text style={styles.modalSubtitle}>
-              Your card {pendingCard?.number} is lower than all rows
+              Your card {pendingRowSelection?.card.number} is lower than all rows
             </Text>
             {gameState?.tableRows.map((row, index) => (
               <TableRow
@@ -659,6 +534,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({ navigation, route }) =>
                 rowIndex={index}
                 selectable
                 onPress={() => handleSelectRow(index)}
+                rules={gameState.rules}
               />
             ))}
           </View>
@@ -700,7 +576,15 @@ export const GameScreen: React.FC<GameScreenProps> = ({ navigation, route }) =>
                 size="lg"
               />
             )}
-            {!isHost && (
+            {spectating && (
+              <Button
+                title="Stop Watching"
+                onPress={() => navigation.goBack()}
+                variant="outline"
+                size="lg"
+              />
+            )}
+            {!isHost && !spectating && (
               <Text style={styles.waitingText}>
                 Waiting for host to return to lobby...
               </Text>
@@ -729,11 +613,19 @@ const styles = StyleSheet.create({
     fontWeight: fontWeight.bold,
     color: colors.textOnPrimary,
   },
+  headerRight: {
+    alignItems: 'flex-end',
+  },
   roundText: {
     fontSize: fontSize.md,
     color: colors.textOnPrimary,
     fontWeight: fontWeight.medium,
   },
+  spectatorCount: {
+    fontSize: fontSize.sm,
+    color: colors.textOnPrimary,
+    marginTop: spacing.xs,
+  },
   playersBar: {
     maxHeight: 100,
     backgroundColor: colors.background,
@@ -816,12 +708,34 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginTop: spacing.xs,
   },
+  turnTimer: {
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.semibold,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  turnTimerUrgent: {
+    color: colors.error,
+  },
   handContainer: {
     backgroundColor: colors.card,
     borderTopWidth: 2,
     borderTopColor: colors.cardBorder,
     paddingVertical: spacing.md,
   },
+  spectatorBar: {
+    backgroundColor: colors.card,
+    borderTopWidth: 2,
+    borderTopColor: colors.cardBorder,
+    padding: spacing.md,
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  spectatorText: {
+    fontSize: fontSize.md,
+    fontWeight: fontWeight.semibold,
+    color: colors.textSecondary,
+  },
   handLabel: {
     fontSize: fontSize.md,
     fontWeight: fontWeight.semibold,
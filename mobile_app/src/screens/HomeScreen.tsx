@@ -11,11 +11,14 @@ import {
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import * as Clipboard from 'expo-clipboard';
-import { Button, Input } from '../components';
+import { Button, Input, PasswordPrompt } from '../components';
 import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../lib/theme';
 import { usePlayer } from '../context/PlayerContext';
-import { supabase, generateLobbyCode } from '../lib/supabase';
-import { RootStackParamList } from '../types';
+import { useBackend } from '../context/BackendContext';
+import { isBannedError, isWrongPasswordError } from '../lib/backend';
+import { generateLobbyCode } from '../lib/supabase';
+import { RootStackParamList, Lobby } from '../types';
+import { DEFAULT_RULES } from '../utils/rules';
 
 type HomeScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Home'>;
 
@@ -24,12 +27,24 @@ interface HomeScreenProps {
 }
 
 export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
-  const { playerId, nickname, setNickname, isLoading: isPlayerLoading } = usePlayer();
+  const {
+    playerId,
+    nickname,
+    setNickname,
+    activeLobbyCode,
+    setActiveLobbyCode,
+    isLoading: isPlayerLoading,
+  } = usePlayer();
+  const backend = useBackend();
   const [nicknameInput, setNicknameInput] = useState('');
   const [lobbyCode, setLobbyCode] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
   const [hasSetNickname, setHasSetNickname] = useState(false);
+  // Lobby the app was in when it was closed, once it is known to still be going
+  const [resumableLobby, setResumableLobby] = useState<Lobby | null>(null);
+  // Lobby waiting for its join password to be typed in
+  const [passwordLobby, setPasswordLobby] = useState<Lobby | null>(null);
 
   useEffect(() => {
     if (nickname) {
@@ -38,6 +53,45 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     }
   }, [nickname]);
 
+  // Check the remembered lobby still exists, this player is still in it and its game isn't over
+  useEffect(() => {
+    setResumableLobby(null);
+    if (!activeLobbyCode || !playerId) return;
+
+    const checkActiveLobby = async () => {
+      try {
+        const lobby = await backend.findLobby(activeLobbyCode);
+        const isPlayer = lobby ? await backend.isInLobby(lobby.id, playerId) : false;
+
+        if (!lobby || !isPlayer || lobby.game_state?.phase === 'finished') {
+          setActiveLobbyCode(null);
+          return;
+        }
+
+        setResumableLobby(lobby);
+      } catch (error) {
+        // Keep the lobby remembered; it may only be the connection that failed
+        console.error('Error checking active lobby:', error);
+      }
+    };
+
+    checkActiveLobby();
+  }, [activeLobbyCode, playerId, setActiveLobbyCode, backend]);
+
+  // Go back to the remembered lobby, on the screen it is at now
+  const handleResume = () => {
+    if (!resumableLobby) return;
+
+    if (resumableLobby.status === 'playing') {
+      navigation.navigate('Game', { lobbyCode: resumableLobby.code });
+    } else {
+      navigation.navigate('Lobby', {
+        lobbyCode: resumableLobby.code,
+        isHost: resumableLobby.host_id === playerId,
+      });
+    }
+  };
+
   const handleSaveNickname = async () => {
     const trimmedNickname = nicknameInput.trim();
     if (trimmedNickname.length < 2) {
@@ -67,41 +121,8 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     try {
       const code = generateLobbyCode();
 
-      // Create lobby in Supabase
-      const { error: lobbyError } = await supabase.from('lobbies').insert({
-        code,
-        host_id: playerId,
-        status: 'waiting',
-      });
-
-      if (lobbyError) {
-        throw lobbyError;
-      }
-
-      // Get the created lobby
-      const { data: lobby, error: fetchError } = await supabase
-        .from('lobbies')
-        .select('*')
-        .eq('code', code)
-        .single();
-
-      if (fetchError || !lobby) {
-        throw fetchError || new Error('Failed to fetch lobby');
-      }
-
-      // Add host as first player
-      const { error: playerError } = await supabase.from('lobby_players').insert({
-        lobby_id: lobby.id,
-        player_id: playerId,
-        nickname: nickname,
-        score: 0,
-        hand: [],
-        is_ready: true,
-      });
-
-      if (playerError) {
-        throw playerError;
-      }
+      // Create the lobby with the host as its first player
+      await backend.createLobby(code, nickname, DEFAULT_RULES, false);
 
       navigation.navigate('Lobby', { lobbyCode: code, isHost: true });
     } catch (error) {
@@ -127,24 +148,15 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     setIsJoining(true);
     try {
       // Find the lobby
-      const { data: lobby, error: lobbyError } = await supabase
-        .from('lobbies')
-        .select('*')
-        .eq('code', code)
-        .single();
+      const lobby = await backend.findLobby(code);
 
-      if (lobbyError || !lobby) {
+      if (!lobby) {
         Alert.alert('Not Found', 'Lobby not found. Please check the code and try again.');
         return;
       }
 
       // Check if player is already in the lobby
-      const { data: existingPlayer } = await supabase
-        .from('lobby_players')
-        .select('*')
-        .eq('lobby_id', lobby.id)
-        .eq('player_id', playerId)
-        .single();
+      const existingPlayer = await backend.isInLobby(lobby.id, playerId);
 
       // If game is in progress, only allow existing players to rejoin
       if (lobby.status === 'playing') {
@@ -153,41 +165,75 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
           navigation.navigate('Game', { lobbyCode: code });
           return;
         } else {
-          Alert.alert('Game in Progress', 'This game has already started. You cannot join mid-game.');
+          Alert.alert(
+            'Game in Progress',
+            'This game has already started, so you cannot join it. You can still watch!',
+            [
+              { text: 'Cancel', style: 'cancel' },
+              {
+                text: 'Watch',
+                onPress: () => navigation.navigate('Game', { lobbyCode: code, spectating: true }),
+              },
+            ]
+          );
           return;
         }
       }
 
       // Game is in waiting status - handle normal join
       if (!existingPlayer) {
-        // Check player count (max 10 players for 6 Nimmt!)
-        const { count } = await supabase
-          .from('lobby_players')
-          .select('*', { count: 'exact', head: true })
-          .eq('lobby_id', lobby.id);
-
-        if (count && count >= 10) {
-          Alert.alert('Lobby Full', 'This lobby is full (max 10 players).');
+        // Check player count against the seats the host offers
+        const count = await backend.countPlayers(lobby.id);
+
+        if (count >= lobby.max_players) {
+          Alert.alert('Lobby Full', `This lobby is full (max ${lobby.max_players} players).`);
           return;
         }
 
-        // Add player to lobby
-        const { error: playerError } = await supabase.from('lobby_players').insert({
-          lobby_id: lobby.id,
-          player_id: playerId,
-          nickname: nickname,
-          score: 0,
-          hand: [],
-          is_ready: false,
-        });
-
-        if (playerError) {
-          throw playerError;
+        // Ask for the password; joining carries on from the prompt
+        if (lobby.has_password) {
+          setPasswordLobby(lobby);
+          return;
         }
+
+        // Add player to lobby
+        await backend.joinLobby(lobby.id, nickname);
       }
 
       navigation.navigate('Lobby', { lobbyCode: code, isHost: lobby.host_id === playerId });
     } catch (error) {
+      if (isBannedError(error)) {
+        Alert.alert('Banned', 'The host has banned you from this lobby.');
+        return;
+      }
+      console.error('Error joining lobby:', error);
+      Alert.alert('Error', 'Failed to join lobby. Please try again.');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const handleJoinWithPassword = async (password: string) => {
+    if (!passwordLobby) return;
+
+    setIsJoining(true);
+    try {
+      await backend.joinLobby(passwordLobby.id, nickname, password);
+      setPasswordLobby(null);
+      navigation.navigate('Lobby', {
+        lobbyCode: passwordLobby.code,
+        isHost: passwordLobby.host_id === playerId,
+      });
+    } catch (error) {
+      if (isWrongPasswordError(error)) {
+        Alert.alert('Wrong Password', 'That password is not right. Please try again.');
+        return;
+      }
+      setPasswordLobby(null);
+      if (isBannedError(error)) {
+        Alert.alert('Banned', 'The host has banned you from this lobby.');
+        return;
+      }
       console.error('Error joining lobby:', error);
       Alert.alert('Error', 'Failed to join lobby. Please try again.');
     } finally {
@@ -232,6 +278,19 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
             <Text style={styles.subtitle}>A pig-tastic card game!</Text>
           </View>
 
+          {/* Resume Section */}
+          {resumableLobby && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Welcome Back!</Text>
+              <Button
+                title={`Resume ${resumableLobby.status === 'playing' ? 'game' : 'lobby'} ${resumableLobby.code}`}
+                onPress={handleResume}
+                variant="primary"
+                size="lg"
+              />
+            </View>
+          )}
+
           {/* Nickname Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Your Nickname</Text>
@@ -307,6 +366,35 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
             />
           </View>
 
+          {/* Public Lobbies Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Play with Anyone</Text>
+            <Button
+              title="Browse Public Lobbies"
+              onPress={() => navigation.navigate('PublicLobbies')}
+              variant="secondary"
+              size="lg"
+              disabled={!hasSetNickname}
+            />
+            <Text style={styles.helperText}>
+              No code needed: pick an open lobby or Quick Match into one!
+            </Text>
+          </View>
+
+          {/* Pass & Play Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Play on This Device</Text>
+            <Button
+              title="Pass & Play"
+              onPress={() => navigation.navigate('LocalSetup')}
+              variant="outline"
+              size="lg"
+            />
+            <Text style={styles.helperText}>
+              No internet? Share one phone or tablet and take turns!
+            </Text>
+          </View>
+
           {/* Footer */}
           <View style={styles.footer}>
             <Text style={styles.footerText}>
@@ -315,6 +403,13 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
           </View>
         </ScrollView>
       </KeyboardAvoidingView>
+
+      <PasswordPrompt
+        lobbyCode={passwordLobby?.code ?? null}
+        onSubmit={handleJoinWithPassword}
+        onCancel={() => setPasswordLobby(null)}
+        loading={isJoining}
+      />
     </SafeAreaView>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -11,12 +11,23 @@ import {
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
 import * as Clipboard from 'expo-clipboard';
-import { Button, PlayerCard } from '../components';
+import { Button, LobbySettingsSheet, PlayerCard } from '../components';
 import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../lib/theme';
 import { usePlayer } from '../context/PlayerContext';
-import { supabase } from '../lib/supabase';
-import { RootStackParamList, LobbyPlayer, Lobby } from '../types';
-import { initializeGame } from '../utils/gameLogic';
+import { useBackend } from '../context/BackendContext';
+import { LobbySettings } from '../lib/backend';
+import { presenceOf } from '../lib/presence';
+import {
+  RootStackParamList,
+  LobbyPlayer,
+  Lobby,
+  LobbyPresence,
+  BotDifficulty,
+} from '../types';
+import { withDefaultRules, PIG_SCHEMES } from '../utils/rules';
+import { assertGameDealable } from '../utils/dealing';
+import { BOT_DIFFICULTIES, generateBotName } from '../utils/bots';
+import { describeLobbySettings } from '../utils/lobbySettings';
 
 type LobbyScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Lobby'>;
 type LobbyScreenRouteProp = RouteProp<RootStackParamList, 'Lobby'>;
@@ -28,120 +39,94 @@ interface LobbyScreenProps {
 
 export const LobbyScreen: React.FC<LobbyScreenProps> = ({ navigation, route }) => {
   const { lobbyCode, isHost: initialIsHost } = route.params;
-  const { playerId, nickname } = usePlayer();
+  const { playerId, nickname, setActiveLobbyCode } = usePlayer();
+  const backend = useBackend();
 
   const [lobby, setLobby] = useState<Lobby | null>(null);
   const [players, setPlayers] = useState<LobbyPlayer[]>([]);
   const [isHost, setIsHost] = useState(initialIsHost);
   const [isStarting, setIsStarting] = useState(false);
   const [codeCopied, setCodeCopied] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  // Who has the lobby open right now, so the host knows whether to wait for someone
+  const [presence, setPresence] = useState<LobbyPresence>({});
+  // Set once this player is on the way out (leaving, or removed by the host), so their
+  // seat going away is acted on only once
+  const hasLeftRef = useRef(false);
+
+  const rules = withDefaultRules(lobby?.rules);
 
   // Fetch lobby and players
-  const fetchLobbyData = useCallback(async () => {
+  const fetchLobbyData = useCallback(async (): Promise<Lobby | null> => {
     try {
-      // Get lobby
-      const { data: lobbyData, error: lobbyError } = await supabase
-        .from('lobbies')
-        .select('*')
-        .eq('code', lobbyCode)
-        .single();
-
-      if (lobbyError || !lobbyData) {
+      const snapshot = await backend.fetchLobby(lobbyCode);
+
+      // Only forget the lobby when it is really gone; network errors throw instead
+      if (!snapshot) {
+        setActiveLobbyCode(null);
         Alert.alert('Error', 'Lobby not found.');
         navigation.goBack();
-        return;
+        return null;
       }
 
+      const { lobby: lobbyData, players: playersData } = snapshot;
+
       setLobby(lobbyData);
       setIsHost(lobbyData.host_id === playerId);
 
       // If game has started, navigate to game screen
       if (lobbyData.status === 'playing') {
         navigation.replace('Game', { lobbyCode });
-        return;
+        return null;
       }
 
-      // Get players
-      const { data: playersData, error: playersError } = await supabase
-        .from('lobby_players')
-        .select('*')
-        .eq('lobby_id', lobbyData.id)
-        .order('joined_at', { ascending: true });
-
-      if (playersError) {
-        console.error('Error fetching players:', playersError);
-        return;
+      // The host removed this player: go home rather than sit in a lobby they're not in
+      if (!hasLeftRef.current && !playersData.some((p) => p.player_id === playerId)) {
+        hasLeftRef.current = true;
+        setActiveLobbyCode(null);
+        Alert.alert('Removed from Lobby', 'The host removed you from this lobby.');
+        navigation.popToTop();
+        return null;
       }
 
-      setPlayers(playersData || []);
+      setPlayers(playersData);
+      return lobbyData;
     } catch (error) {
       console.error('Error fetching lobby data:', error);
+      return null;
     }
-  }, [lobbyCode, playerId, navigation]);
+  }, [lobbyCode, playerId, navigation, setActiveLobbyCode, backend]);
+
+  // Remember this lobby, so the app can offer to come back to it after a restart
+  useEffect(() => {
+    setActiveLobbyCode(lobbyCode);
+  }, [lobbyCode, setActiveLobbyCode]);
 
   // Set up real-time subscription
   useEffect(() => {
-    let lobbyChannel: ReturnType<typeof supabase.channel> | null = null;
+    let unsubscribe: (() => void) | null = null;
+    let isMounted = true;
 
     const setupSubscription = async () => {
       // First fetch initial data
-      await fetchLobbyData();
-
-      // Get lobby ID for filtering
-      const { data: lobbyData } = await supabase
-        .from('lobbies')
-        .select('id')
-        .eq('code', lobbyCode)
-        .single();
-
-      if (!lobbyData) return;
-
-      // Subscribe to lobby changes with proper filters
-      lobbyChannel = supabase
-        .channel(`lobby:${lobbyCode}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'lobbies',
-            filter: `code=eq.${lobbyCode}`,
-          },
-          (payload) => {
-            if (payload.eventType === 'UPDATE') {
-              const updatedLobby = payload.new as Lobby;
-              setLobby(updatedLobby);
-
-              if (updatedLobby.status === 'playing') {
-                navigation.replace('Game', { lobbyCode });
-              }
-            }
-          }
-        )
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'lobby_players',
-            filter: `lobby_id=eq.${lobbyData.id}`,
-          },
-          () => {
-            // Refetch players when there's a change
-            fetchLobbyData();
-          }
-        )
-        .subscribe();
+      const lobbyData = await fetchLobbyData();
+      if (!lobbyData || !isMounted) return;
+
+      // Refetch whenever the lobby or its players change; presence shows who has the lobby open
+      unsubscribe = backend.subscribe(lobbyData, playerId, {
+        scope: 'lobby',
+        onChange: fetchLobbyData,
+        onPresence: setPresence,
+      });
     };
 
     setupSubscription();
 
     return () => {
-      if (lobbyChannel) {
-        supabase.removeChannel(lobbyChannel);
-      }
+      isMounted = false;
+      unsubscribe?.();
     };
-  }, [lobbyCode, fetchLobbyData, navigation]);
+  }, [playerId, fetchLobbyData, backend]);
 
   const handleCopyCode = async () => {
     try {
@@ -164,39 +149,18 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({ navigation, route }) =
       return;
     }
 
-    setIsStarting(true);
     try {
-      // Initialize game
-      const { gameState, hands } = initializeGame(players.length);
-
-      // Update each player with their hand
-      for (let i = 0; i < players.length; i++) {
-        const { error } = await supabase
-          .from('lobby_players')
-          .update({
-            hand: hands[i],
-            score: 0,
-            selected_card: null,
-          })
-          .eq('id', players[i].id);
-
-        if (error) {
-          throw error;
-        }
-      }
+      assertGameDealable(players.length, rules);
+    } catch (error) {
+      Alert.alert('Cannot Deal', (error as Error).message);
+      return;
+    }
 
-      // Update lobby status and game state
-      const { error: lobbyError } = await supabase
-        .from('lobbies')
-        .update({
-          status: 'playing',
-          game_state: gameState,
-        })
-        .eq('id', lobby.id);
-
-      if (lobbyError) {
-        throw lobbyError;
-      }
+    setIsStarting(true);
+    try {
+      // The server deals, so no device ever sees another player's hand
+      await backend.syncClock();
+      await backend.startGame(lobby.id);
 
       // Navigation will happen through the subscription
     } catch (error) {
@@ -207,6 +171,76 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({ navigation, route }) =
     }
   };
 
+  const handleAddBot = async (difficulty: BotDifficulty) => {
+    if (!lobby || !isHost) return;
+
+    if (players.length >= lobby.max_players) {
+      Alert.alert('Lobby Full', `This lobby is full (max ${lobby.max_players} players).`);
+      return;
+    }
+
+    try {
+      await backend.addBot(lobby.id, generateBotName(players.map((p) => p.nickname)), difficulty);
+    } catch (error) {
+      console.error('Error adding bot:', error);
+      Alert.alert('Error', 'Failed to add bot. Please try again.');
+    }
+  };
+
+  const handleChangeSettings = async (settings: Partial<LobbySettings>) => {
+    if (!lobby || !isHost) return;
+
+    try {
+      await backend.updateSettings(lobby.id, settings);
+    } catch (error) {
+      console.error('Error updating lobby settings:', error);
+      Alert.alert('Error', 'Failed to change the lobby settings. Please try again.');
+    }
+  };
+
+  const handleSetPassword = async (password: string | null) => {
+    if (!lobby || !isHost) return;
+
+    try {
+      await backend.setJoinPassword(lobby.id, password);
+    } catch (error) {
+      console.error('Error setting join password:', error);
+      Alert.alert('Error', 'Failed to change the join password. Please try again.');
+    }
+  };
+
+  const handleKickPlayer = async (player: LobbyPlayer, ban: boolean) => {
+    if (!lobby || !isHost) return;
+
+    try {
+      await backend.kickPlayer(lobby.id, player.player_id, ban);
+    } catch (error) {
+      console.error('Error removing player:', error);
+      Alert.alert('Error', `Failed to remove ${player.nickname}. Please try again.`);
+    }
+  };
+
+  // The host's menu for another player: kick them, or ban them from coming back
+  const handlePlayerLongPress = (player: LobbyPlayer) => {
+    if (player.is_bot) {
+      Alert.alert(player.nickname, 'Remove this bot from the lobby?', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => handleKickPlayer(player, false) },
+      ]);
+      return;
+    }
+
+    Alert.alert(
+      player.nickname,
+      'Kick them out of the lobby, or ban them so they cannot join it again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Kick', onPress: () => handleKickPlayer(player, false) },
+        { text: 'Ban', style: 'destructive', onPress: () => handleKickPlayer(player, true) },
+      ]
+    );
+  };
+
   const handleLeaveLobby = async () => {
     Alert.alert(
       'Leave Lobby',
@@ -217,31 +251,13 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({ navigation, route }) =
           text: 'Leave',
           style: 'destructive',
           onPress: async () => {
+            hasLeftRef.current = true;
             try {
               if (lobby) {
-                // Remove player from lobby
-                await supabase
-                  .from('lobby_players')
-                  .delete()
-                  .eq('lobby_id', lobby.id)
-                  .eq('player_id', playerId);
-
-                // If host is leaving and there are other players, transfer host
-                if (isHost && players.length > 1) {
-                  const newHost = players.find((p) => p.player_id !== playerId);
-                  if (newHost) {
-                    await supabase
-                      .from('lobbies')
-                      .update({ host_id: newHost.player_id })
-                      .eq('id', lobby.id);
-                  }
-                }
-
-                // If no players left, delete the lobby
-                if (players.length <= 1) {
-                  await supabase.from('lobbies').delete().eq('id', lobby.id);
-                }
+                // Leaves, hands over hosting and deletes a bots-only lobby in one step
+                await backend.leaveLobby(lobby.id);
               }
+              await setActiveLobbyCode(null);
               navigation.goBack();
             } catch (error) {
               console.error('Error leaving lobby:', error);
@@ -284,14 +300,16 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({ navigation, route }) =
             />
           </View>
           <Text style={styles.codeHint}>
-            Share this code with your friends!
+            {lobby?.is_public
+              ? 'Anyone can join from the public lobby list, or with this code.'
+              : 'Share this code with your friends!'}
           </Text>
         </View>
 
         {/* Players Section */}
         <View style={styles.playersSection}>
           <Text style={styles.sectionTitle}>
-            Players ({players.length}/10)
+            Players ({players.length}/{lobby?.max_players ?? 10})
           </Text>
           <FlatList
             data={players}
@@ -302,8 +320,15 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({ navigation, route }) =
                   nickname={item.nickname}
                   score={item.score}
                   isHost={lobby?.host_id === item.player_id}
+                  isBot={item.is_bot}
                   isReady={item.is_ready}
                   isCurrentPlayer={item.player_id === playerId}
+                  presence={item.is_bot ? undefined : presenceOf(presence, item.player_id)}
+                  onLongPress={
+                    isHost && item.player_id !== playerId
+                      ? () => handlePlayerLongPress(item)
+                      : undefined
+                  }
                 />
               </View>
             )}
@@ -314,6 +339,26 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({ navigation, route }) =
               <Text style={styles.emptyText}>Waiting for players...</Text>
             }
           />
+          {isHost && players.length > 1 && (
+            <Text style={styles.moderationHint}>Long-press a player to kick or ban them</Text>
+          )}
+          {isHost && lobby && players.length < lobby.max_players && (
+            <View style={styles.addBotSection}>
+              <Text style={styles.addBotLabel}>Add a bot</Text>
+              <View style={styles.schemeRow}>
+                {(Object.keys(BOT_DIFFICULTIES) as BotDifficulty[]).map((difficulty) => (
+                  <Button
+                    key={difficulty}
+                    title={`🤖 ${BOT_DIFFICULTIES[difficulty].name}`}
+                    onPress={() => handleAddBot(difficulty)}
+                    variant="outline"
+                    size="sm"
+                    style={styles.schemeButton}
+                  />
+                ))}
+              </View>
+            </View>
+          )}
         </View>
 
         {/* Game Info */}
@@ -323,12 +368,35 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({ navigation, route }) =
             • Everyone picks a card secretly{'\n'}
             • Cards are revealed and placed lowest to highest{'\n'}
             • Place your card on the row with the closest lower number{'\n'}
-            • If you're the 6th card in a row, you take all 5 cards!{'\n'}
+            • If you're card {rules.maxRowLength + 1} in a row, you take all {rules.maxRowLength} cards!{'\n'}
             • Collect pigs 🐷 from cards you take{'\n'}
-            • First to 66 pigs loses!{'\n'}
-            • Special cards (11, 22, 33...) give -11 pigs! ✨
+            • First to {rules.targetScore} pigs loses!
           </Text>
         </View>
+
+        {/* Lobby Settings (read-only for everyone but the host) */}
+        {lobby && (
+          <View style={styles.infoSection}>
+            <Text style={styles.infoTitle}>⚙️ Lobby Settings</Text>
+            {describeLobbySettings(lobby).map(({ label, value }) => (
+              <View key={label} style={styles.settingRow}>
+                <Text style={styles.infoText}>{label}</Text>
+                <Text style={styles.settingValue}>{value}</Text>
+              </View>
+            ))}
+            <Text style={[styles.infoText, styles.settingNote]}>
+              🐷 {PIG_SCHEMES[rules.pigScheme].description}
+            </Text>
+            {isHost && (
+              <Button
+                title="Edit Settings"
+                onPress={() => setShowSettings(true)}
+                variant="outline"
+                size="sm"
+              />
+            )}
+          </View>
+        )}
       </ScrollView>
 
       {/* Start Button (Host only) */}
@@ -350,6 +418,17 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({ navigation, route }) =
           </View>
         )}
       </View>
+
+      {lobby && isHost && (
+        <LobbySettingsSheet
+          visible={showSettings}
+          lobby={lobby}
+          playerCount={players.length}
+          onChange={handleChangeSettings}
+          onSetPassword={handleSetPassword}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -443,6 +522,20 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     padding: spacing.lg,
   },
+  moderationHint: {
+    fontSize: fontSize.xs,
+    color: colors.textLight,
+    textAlign: 'center',
+    marginTop: spacing.xs,
+  },
+  addBotSection: {
+    marginTop: spacing.md,
+  },
+  addBotLabel: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
   infoSection: {
     backgroundColor: colors.secondaryLight + '30',
     borderRadius: borderRadius.lg,
@@ -460,6 +553,26 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     lineHeight: 22,
   },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  settingValue: {
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.semibold,
+    color: colors.textPrimary,
+    lineHeight: 22,
+  },
+  settingNote: {
+    marginVertical: spacing.sm,
+  },
+  schemeRow: {
+    flexDirection: 'row',
+    marginBottom: spacing.sm,
+  },
+  schemeButton: {
+    marginRight: spacing.sm,
+  },
   footer: {
     padding: spacing.lg,
     backgroundColor: colors.card,
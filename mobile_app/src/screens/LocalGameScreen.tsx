@@ -0,0 +1,535 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  Modal,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { Button, GameCard, TableRow, PlayerCard } from '../components';
+import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../lib/theme';
+import {
+  RootStackParamList,
+  Card,
+  RevealedCard,
+  TurnEvent,
+  TurnSelections,
+  TurnState,
+} from '../types';
+import { resolveTurn, sortRevealedCards } from '../utils/gameLogic';
+import { createLocalGame } from '../utils/localGame';
+
+type LocalGameScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'LocalGame'>;
+type LocalGameScreenRouteProp = RouteProp<RootStackParamList, 'LocalGame'>;
+
+// Where the table is in a turn
+// - handoff: the privacy screen, waiting for the next player to take the device
+// - choosing: that player is picking their card
+// - row_selection: a revealed card is lower than every row and its player picks one
+// - results: the turn has been played out
+type LocalStep = 'handoff' | 'choosing' | 'row_selection' | 'results';
+
+interface LocalGameScreenProps {
+  navigation: LocalGameScreenNavigationProp;
+  route: LocalGameScreenRouteProp;
+}
+
+export const LocalGameScreen: React.FC<LocalGameScreenProps> = ({ navigation, route }) => {
+  const { playerNames } = route.params;
+
+  const [turnState, setTurnState] = useState<TurnState>(() => createLocalGame(playerNames));
+  const [step, setStep] = useState<LocalStep>('handoff');
+  // Seat of the player picking a card
+  const [chooserIndex, setChooserIndex] = useState(0);
+  const [selections, setSelections] = useState<TurnSelections>({});
+  const [selectedCard, setSelectedCard] = useState<Card | null>(null);
+  // Cards played this turn and what happened to them
+  const [revealedCards, setRevealedCards] = useState<RevealedCard[]>([]);
+  const [turnEvents, setTurnEvents] = useState<TurnEvent[]>([]);
+
+  const { gameState, players } = turnState;
+  const chooser = players[chooserIndex];
+  const pendingRowSelection = gameState.pendingRowSelection ?? null;
+  const isGameOver = gameState.phase === 'finished' && step === 'results';
+
+  const nameOf = (playerId: string) =>
+    players.find((p) => p.id === playerId)?.nickname ?? '';
+
+  // Play out a turn (or the rest of one, after a row choice)
+  const applyTurn = (result: ReturnType<typeof resolveTurn>) => {
+    setTurnState(result.state);
+    setTurnEvents((current) => [...current, ...result.events]);
+    setStep(result.state.gameState.phase === 'row_selection' ? 'row_selection' : 'results');
+  };
+
+  const handlePlayCard = () => {
+    if (!selectedCard || !chooser) return;
+
+    const newSelections = { ...selections, [chooser.id]: selectedCard };
+    setSelectedCard(null);
+
+    if (chooserIndex < players.length - 1) {
+      setSelections(newSelections);
+      setChooserIndex(chooserIndex + 1);
+      setStep('handoff');
+      return;
+    }
+
+    // Everyone has chosen: reveal every card and place them
+    try {
+      setRevealedCards(
+        sortRevealedCards(
+          players.map((player) => ({
+            playerId: player.id,
+            playerName: player.nickname,
+            card: newSelections[player.id],
+          }))
+        )
+      );
+      setTurnEvents([]);
+      setSelections({});
+      applyTurn(resolveTurn(turnState, newSelections));
+    } catch (error) {
+      console.error('Error playing turn:', error);
+      Alert.alert('Error', 'Something went wrong playing this turn.');
+    }
+  };
+
+  const handleSelectRow = (rowIndex: number) => {
+    if (step !== 'row_selection' || !pendingRowSelection) return;
+
+    try {
+      applyTurn(resolveTurn(turnState, {}, { [pendingRowSelection.playerId]: rowIndex }));
+    } catch (error) {
+      console.error('Error taking row:', error);
+      Alert.alert('Error', 'Something went wrong taking that row.');
+    }
+  };
+
+  const handleNextTurn = () => {
+    setRevealedCards([]);
+    setTurnEvents([]);
+    setChooserIndex(0);
+    setStep('handoff');
+  };
+
+  const handlePlayAgain = () => {
+    setTurnState(createLocalGame(playerNames));
+    handleNextTurn();
+  };
+
+  const handleQuit = () => {
+    Alert.alert('Quit Game', 'This game will be lost. Are you sure?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Quit', style: 'destructive', onPress: () => navigation.goBack() },
+    ]);
+  };
+
+  const describeEvent = (event: TurnEvent): string | null => {
+    switch (event.type) {
+      case 'row_taken':
+        return `${nameOf(event.playerId)} took row ${event.rowIndex + 1} (${event.pigsTaken} 🐷)`;
+      case 'round_ended':
+        return `Round ${event.round} is over - new cards dealt!`;
+      default:
+        return null;
+    }
+  };
+
+  // Privacy screen: nothing of anyone's hand shows until the right player has the device
+  if (step === 'handoff' && chooser) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.handoffContainer}>
+          <Text style={styles.handoffEmoji}>🙈</Text>
+          <Text style={styles.handoffTitle}>Pass the device to</Text>
+          <Text style={styles.handoffName}>{chooser.nickname}</Text>
+          <Text style={styles.handoffHint}>No peeking, everyone else!</Text>
+          <Button
+            title={`I'm ${chooser.nickname} - Show My Cards`}
+            onPress={() => setStep('choosing')}
+            variant="primary"
+            size="lg"
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const eventLines = turnEvents
+    .map(describeEvent)
+    .filter((line): line is string => line !== null);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>🐷 Pass & Play</Text>
+        <Text style={styles.roundText}>
+          Round {gameState.round} • {gameState.handSize} cards
+        </Text>
+      </View>
+
+      {/* Players Score Bar */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.playersBar}
+        contentContainerStyle={styles.playersBarContent}
+      >
+        {players.map((player, seat) => (
+          <View key={player.id} style={styles.playerBarItem}>
+            <PlayerCard
+              nickname={player.nickname}
+              score={player.score}
+              isCurrentPlayer={step === 'choosing' && seat === chooserIndex}
+              hasSelectedCard={step === 'choosing' && !!selections[player.id]}
+              compact
+            />
+          </View>
+        ))}
+      </ScrollView>
+
+      {/* Revealed Cards Display */}
+      {(step === 'row_selection' || step === 'results') && (
+        <View style={styles.revealedCardsContainer}>
+          <Text style={styles.revealedCardsTitle}>Cards Revealed!</Text>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.revealedCardsContent}
+          >
+            {revealedCards.map((revealed) => (
+              <View key={revealed.card.number} style={styles.revealedCardWrapper}>
+                <GameCard card={revealed.card} size="md" disabled />
+                <Text style={styles.revealedCardPlayerName}>{revealed.playerName}</Text>
+              </View>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      {/* Game Table */}
+      <ScrollView style={styles.gameTable} contentContainerStyle={styles.gameTableContent}>
+        <Text style={styles.tableLabel}>Table</Text>
+        {gameState.tableRows.map((row, index) => (
+          <TableRow
+            key={index}
+            row={row}
+            rowIndex={index}
+            selectable={step === 'row_selection'}
+            onPress={() => handleSelectRow(index)}
+            rules={gameState.rules}
+          />
+        ))}
+
+        {/* Status Message */}
+        <View style={styles.statusContainer}>
+          {step === 'choosing' && (
+            <Text style={styles.statusText}>
+              {selectedCard
+                ? `Play card ${selectedCard.number}?`
+                : `${chooser?.nickname}, pick a card from your hand`}
+            </Text>
+          )}
+          {step === 'row_selection' && pendingRowSelection && (
+            <Text style={styles.statusText}>
+              {pendingRowSelection.playerName}, your card {pendingRowSelection.card.number} is
+              lower than every row. Tap the row to take!
+            </Text>
+          )}
+          {step === 'results' && (
+            <>
+              {eventLines.length > 0 ? (
+                eventLines.map((line, index) => (
+                  <Text key={index} style={styles.eventText}>
+                    {line}
+                  </Text>
+                ))
+              ) : (
+                <Text style={styles.statusText}>No pigs taken this turn!</Text>
+              )}
+              {!isGameOver && (
+                <Button
+                  title="Next Turn"
+                  onPress={handleNextTurn}
+                  variant="primary"
+                  size="md"
+                  style={styles.nextTurnButton}
+                />
+              )}
+            </>
+          )}
+        </View>
+      </ScrollView>
+
+      {/* Hand of the player holding the device */}
+      {step === 'choosing' && chooser && (
+        <View style={styles.handContainer}>
+          <View style={styles.handHeader}>
+            <Text style={styles.handLabel}>{chooser.nickname}'s Hand</Text>
+            <Button
+              title="Play Card"
+              onPress={handlePlayCard}
+              variant="primary"
+              size="sm"
+              disabled={!selectedCard}
+            />
+          </View>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.hand}
+          >
+            {chooser.hand
+              .slice()
+              .sort((a, b) => a.number - b.number)
+              .map((card) => (
+                <View key={card.number} style={styles.cardWrapper}>
+                  <GameCard
+                    card={card}
+                    onPress={() =>
+                      setSelectedCard(selectedCard?.number === card.number ? null : card)
+                    }
+                    selected={selectedCard?.number === card.number}
+                    size="md"
+                  />
+                </View>
+              ))}
+          </ScrollView>
+        </View>
+      )}
+
+      <Button title="Quit Game" onPress={handleQuit} variant="ghost" size="sm" />
+
+      {/* Game Over Modal */}
+      <Modal visible={isGameOver} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.gameOverTitle}>🎉 Game Over! 🎉</Text>
+            <View style={styles.finalScores}>
+              <Text style={styles.finalScoresTitle}>Final Scores:</Text>
+              {players
+                .slice()
+                .sort((a, b) => a.score - b.score)
+                .map((player, index) => (
+                  <Text
+                    key={player.id}
+                    style={[styles.scoreRow, index === 0 && styles.winnerScore]}
+                  >
+                    {index + 1}. {player.nickname}: {player.score} 🐷
+                  </Text>
+                ))}
+            </View>
+            <Button title="Play Again" onPress={handlePlayAgain} variant="primary" size="lg" />
+            <Button
+              title="Back to Home"
+              onPress={() => navigation.goBack()}
+              variant="ghost"
+              size="md"
+              style={styles.homeButton}
+            />
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.tableGreen,
+  },
+  handoffContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+    backgroundColor: colors.primaryDark,
+  },
+  handoffEmoji: {
+    fontSize: fontSize.giant,
+    marginBottom: spacing.lg,
+  },
+  handoffTitle: {
+    fontSize: fontSize.lg,
+    color: colors.textOnPrimary,
+  },
+  handoffName: {
+    fontSize: fontSize.xxl,
+    fontWeight: fontWeight.bold,
+    color: colors.textOnPrimary,
+    marginVertical: spacing.sm,
+  },
+  handoffHint: {
+    fontSize: fontSize.md,
+    color: colors.primaryLight,
+    marginBottom: spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    backgroundColor: colors.primaryDark,
+  },
+  headerTitle: {
+    fontSize: fontSize.xl,
+    fontWeight: fontWeight.bold,
+    color: colors.textOnPrimary,
+  },
+  roundText: {
+    fontSize: fontSize.md,
+    color: colors.textOnPrimary,
+    fontWeight: fontWeight.medium,
+  },
+  playersBar: {
+    maxHeight: 100,
+    backgroundColor: colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.cardBorder,
+  },
+  playersBarContent: {
+    padding: spacing.sm,
+    gap: spacing.sm,
+    flexDirection: 'row',
+  },
+  playerBarItem: {
+    marginRight: spacing.sm,
+  },
+  revealedCardsContainer: {
+    backgroundColor: colors.accent,
+    paddingVertical: spacing.md,
+    borderBottomWidth: 2,
+    borderBottomColor: colors.accentDark,
+  },
+  revealedCardsTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: fontWeight.bold,
+    color: colors.primaryDark,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  revealedCardsContent: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.md,
+  },
+  revealedCardWrapper: {
+    alignItems: 'center',
+    marginRight: spacing.md,
+  },
+  revealedCardPlayerName: {
+    marginTop: spacing.xs,
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.semibold,
+    color: colors.primaryDark,
+    textAlign: 'center',
+  },
+  gameTable: {
+    flex: 1,
+  },
+  gameTableContent: {
+    padding: spacing.md,
+  },
+  tableLabel: {
+    fontSize: fontSize.lg,
+    fontWeight: fontWeight.semibold,
+    color: colors.textOnPrimary,
+    marginBottom: spacing.md,
+  },
+  statusContainer: {
+    backgroundColor: colors.card,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginTop: spacing.md,
+    alignItems: 'center',
+    ...shadows.sm,
+  },
+  statusText: {
+    fontSize: fontSize.md,
+    color: colors.textPrimary,
+    textAlign: 'center',
+  },
+  eventText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.xs,
+  },
+  nextTurnButton: {
+    marginTop: spacing.sm,
+  },
+  handContainer: {
+    backgroundColor: colors.card,
+    borderTopWidth: 2,
+    borderTopColor: colors.cardBorder,
+    paddingVertical: spacing.md,
+  },
+  handHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  handLabel: {
+    fontSize: fontSize.md,
+    fontWeight: fontWeight.semibold,
+    color: colors.textPrimary,
+  },
+  hand: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.sm,
+  },
+  cardWrapper: {
+    marginRight: spacing.sm,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  modalContent: {
+    backgroundColor: colors.card,
+    borderRadius: borderRadius.lg,
+    padding: spacing.xl,
+    width: '100%',
+    maxWidth: 400,
+    ...shadows.lg,
+  },
+  gameOverTitle: {
+    fontSize: fontSize.xxl,
+    fontWeight: fontWeight.bold,
+    color: colors.primary,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  finalScores: {
+    marginBottom: spacing.lg,
+  },
+  finalScoresTitle: {
+    fontSize: fontSize.md,
+    fontWeight: fontWeight.semibold,
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  scoreRow: {
+    fontSize: fontSize.md,
+    color: colors.textSecondary,
+    paddingVertical: spacing.xs,
+  },
+  winnerScore: {
+    color: colors.success,
+    fontWeight: fontWeight.bold,
+  },
+  homeButton: {
+    marginTop: spacing.sm,
+  },
+});
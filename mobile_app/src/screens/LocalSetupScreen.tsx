@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Button, Input } from '../components';
+import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../lib/theme';
+import { usePlayer } from '../context/PlayerContext';
+import { RootStackParamList } from '../types';
+import {
+  MAX_LOCAL_PLAYERS,
+  MIN_LOCAL_PLAYERS,
+  validateLocalPlayerNames,
+} from '../utils/localGame';
+
+type LocalSetupScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'LocalSetup'>;
+
+interface LocalSetupScreenProps {
+  navigation: LocalSetupScreenNavigationProp;
+}
+
+export const LocalSetupScreen: React.FC<LocalSetupScreenProps> = ({ navigation }) => {
+  const { nickname } = usePlayer();
+  const [names, setNames] = useState<string[]>([nickname, '']);
+
+  const handleChangeName = (index: number, name: string) => {
+    setNames((current) => current.map((n, i) => (i === index ? name : n)));
+  };
+
+  const handleAddPlayer = () => {
+    setNames((current) => [...current, '']);
+  };
+
+  const handleRemovePlayer = (index: number) => {
+    setNames((current) => current.filter((_, i) => i !== index));
+  };
+
+  const handleStart = () => {
+    const problem = validateLocalPlayerNames(names);
+    if (problem) {
+      Alert.alert('Check the Players', problem);
+      return;
+    }
+
+    navigation.replace('LocalGame', { playerNames: names.map((name) => name.trim()) });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.header}>
+            <Text style={styles.title}>Pass & Play</Text>
+            <Text style={styles.subtitle}>One device, no internet needed</Text>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              Players ({names.length}/{MAX_LOCAL_PLAYERS})
+            </Text>
+            {names.map((name, index) => (
+              <View key={index} style={styles.nameRow}>
+                <View style={styles.nameInputContainer}>
+                  <Input
+                    value={name}
+                    onChangeText={(text) => handleChangeName(index, text)}
+                    placeholder={`Player ${index + 1}`}
+                    maxLength={15}
+                    autoCapitalize="words"
+                  />
+                </View>
+                {names.length > MIN_LOCAL_PLAYERS && (
+                  <Button
+                    title="✕"
+                    onPress={() => handleRemovePlayer(index)}
+                    variant="ghost"
+                    size="md"
+                    style={styles.removeButton}
+                  />
+                )}
+              </View>
+            ))}
+            {names.length < MAX_LOCAL_PLAYERS && (
+              <Button
+                title="+ Add Player"
+                onPress={handleAddPlayer}
+                variant="outline"
+                size="md"
+              />
+            )}
+            <Text style={styles.helperText}>
+              Everyone picks a card in turn, then hands the device on.
+            </Text>
+          </View>
+
+          <Button title="Start Game" onPress={handleStart} variant="primary" size="lg" />
+          <Button
+            title="Back"
+            onPress={() => navigation.goBack()}
+            variant="ghost"
+            size="md"
+            style={styles.backButton}
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+    marginTop: spacing.lg,
+  },
+  title: {
+    fontSize: fontSize.xxl,
+    fontWeight: fontWeight.bold,
+    color: colors.primary,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: fontSize.lg,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  section: {
+    backgroundColor: colors.card,
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    marginBottom: spacing.lg,
+    ...shadows.md,
+  },
+  sectionTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: fontWeight.semibold,
+    color: colors.textPrimary,
+    marginBottom: spacing.md,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: spacing.sm,
+  },
+  nameInputContainer: {
+    flex: 1,
+  },
+  removeButton: {
+    marginLeft: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  helperText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: spacing.sm,
+    textAlign: 'center',
+  },
+  backButton: {
+    marginTop: spacing.sm,
+  },
+});
@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, Alert, FlatList } from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Button, PasswordPrompt } from '../components';
+import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../lib/theme';
+import { usePlayer } from '../context/PlayerContext';
+import { useBackend } from '../context/BackendContext';
+import { isBannedError, isWrongPasswordError } from '../lib/backend';
+import { generateLobbyCode } from '../lib/supabase';
+import { RootStackParamList, Lobby, PublicLobby } from '../types';
+import { DEFAULT_RULES, PIG_SCHEMES, withDefaultRules } from '../utils/rules';
+import { canJoinPublicLobby, pickQuickMatchLobby } from '../utils/matchmaking';
+
+type PublicLobbiesScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'PublicLobbies'
+>;
+
+interface PublicLobbiesScreenProps {
+  navigation: PublicLobbiesScreenNavigationProp;
+}
+
+export const PublicLobbiesScreen: React.FC<PublicLobbiesScreenProps> = ({ navigation }) => {
+  const { playerId, nickname } = usePlayer();
+  const backend = useBackend();
+
+  const [lobbies, setLobbies] = useState<PublicLobby[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMatching, setIsMatching] = useState(false);
+  // Code of the lobby being joined, so only its button spins
+  const [joiningCode, setJoiningCode] = useState<string | null>(null);
+  // Lobby waiting for its join password to be typed in
+  const [passwordLobby, setPasswordLobby] = useState<Lobby | null>(null);
+
+  const fetchLobbies = useCallback(async () => {
+    try {
+      setLobbies(await backend.listPublicLobbies());
+    } catch (error) {
+      // Keep showing the last list; the next change or pull will try again
+      console.error('Error fetching public lobbies:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [backend]);
+
+  const handleRefresh = () => {
+    setIsLoading(true);
+    fetchLobbies();
+  };
+
+  // Keep the list live: refetch whenever the listed lobbies or their players may have changed
+  useEffect(() => {
+    fetchLobbies();
+    return backend.subscribePublicLobbies(fetchLobbies);
+  }, [fetchLobbies, backend]);
+
+  // Take a seat in the lobby (unless this player already has one) and open it
+  // A lobby with a password asks for it first, unless it was just typed in
+  const enterLobby = async (lobby: Lobby, password?: string) => {
+    const isPlayer = await backend.isInLobby(lobby.id, playerId);
+
+    if (!isPlayer) {
+      const count = await backend.countPlayers(lobby.id);
+      if (count >= lobby.max_players) {
+        Alert.alert('Lobby Full', 'This lobby filled up just now. Try another one!');
+        return;
+      }
+
+      if (lobby.has_password && password === undefined) {
+        setPasswordLobby(lobby);
+        return;
+      }
+
+      await backend.joinLobby(lobby.id, nickname, password);
+    }
+
+    setPasswordLobby(null);
+    navigation.navigate('Lobby', { lobbyCode: lobby.code, isHost: lobby.host_id === playerId });
+  };
+
+  const handleJoin = async (lobby: Lobby, password?: string) => {
+    setJoiningCode(lobby.code);
+    try {
+      await enterLobby(lobby, password);
+    } catch (error) {
+      if (isWrongPasswordError(error)) {
+        Alert.alert('Wrong Password', 'That password is not right. Please try again.');
+        return;
+      }
+      setPasswordLobby(null);
+      if (isBannedError(error)) {
+        Alert.alert('Banned', 'The host has banned you from this lobby.');
+        return;
+      }
+      // Most likely the game started between listing and joining
+      console.error('Error joining public lobby:', error);
+      Alert.alert('Error', 'Failed to join lobby. It may have just started.');
+      fetchLobbies();
+    } finally {
+      setJoiningCode(null);
+    }
+  };
+
+  // Join the fullest lobby with room to spare, or open a new public one
+  const handleQuickMatch = async () => {
+    setIsMatching(true);
+    try {
+      const match = pickQuickMatchLobby(await backend.listPublicLobbies());
+
+      if (match) {
+        await enterLobby(match.lobby);
+        return;
+      }
+
+      const code = generateLobbyCode();
+      await backend.createLobby(code, nickname, DEFAULT_RULES, true);
+      navigation.navigate('Lobby', { lobbyCode: code, isHost: true });
+    } catch (error) {
+      console.error('Error finding a quick match:', error);
+      Alert.alert('Error', 'Failed to find a game. Please try again.');
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  const renderLobby = ({ item }: { item: PublicLobby }) => {
+    const rules = withDefaultRules(item.lobby.rules);
+    const canJoin = canJoinPublicLobby(item);
+
+    return (
+      <View style={styles.lobbyCard}>
+        <View style={styles.lobbyInfo}>
+          <Text style={styles.lobbyHost} numberOfLines={1}>
+            {item.lobby.has_password ? '🔒 ' : ''}
+            {item.hostNickname ?? 'Someone'}'s lobby
+          </Text>
+          <Text style={styles.lobbyDetails}>
+            🐷 {PIG_SCHEMES[rules.pigScheme].name} • First to {rules.targetScore}
+          </Text>
+          <Text style={styles.lobbyDetails}>
+            👥 {item.playerCount}/{item.lobby.max_players} players
+          </Text>
+        </View>
+        <Button
+          title={canJoin ? 'Join' : 'Full'}
+          onPress={() => handleJoin(item.lobby)}
+          variant="secondary"
+          size="sm"
+          loading={joiningCode === item.lobby.code}
+          disabled={!canJoin || joiningCode !== null || isMatching}
+        />
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <Button title="← Back" onPress={() => navigation.goBack()} variant="ghost" size="sm" />
+        </View>
+        <Text style={styles.headerTitle}>🌍 Public Lobbies</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <FlatList
+        data={lobbies}
+        keyExtractor={(item) => item.lobby.id}
+        renderItem={renderLobby}
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        refreshing={isLoading}
+        onRefresh={handleRefresh}
+        ListEmptyComponent={
+          isLoading ? null : (
+            <Text style={styles.emptyText}>
+              No public lobbies right now.{'\n'}Quick Match opens one for others to join!
+            </Text>
+          )
+        }
+      />
+
+      <View style={styles.footer}>
+        <Button
+          title="⚡ Quick Match"
+          onPress={handleQuickMatch}
+          variant="primary"
+          size="lg"
+          loading={isMatching}
+          disabled={joiningCode !== null}
+        />
+        <Text style={styles.helperText}>Joins the fullest open lobby, or starts a new one</Text>
+      </View>
+
+      <PasswordPrompt
+        lobbyCode={passwordLobby?.code ?? null}
+        onSubmit={(password) => passwordLobby && handleJoin(passwordLobby, password)}
+        onCancel={() => setPasswordLobby(null)}
+        loading={joiningCode !== null}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.cardBorder,
+    backgroundColor: colors.card,
+  },
+  headerLeft: {
+    flex: 1,
+    alignItems: 'flex-start',
+  },
+  headerTitle: {
+    fontSize: fontSize.xl,
+    fontWeight: fontWeight.bold,
+    color: colors.primary,
+  },
+  headerRight: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: spacing.lg,
+  },
+  lobbyCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...shadows.md,
+  },
+  lobbyInfo: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  lobbyHost: {
+    fontSize: fontSize.md,
+    fontWeight: fontWeight.semibold,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  lobbyDetails: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  emptyText: {
+    color: colors.textLight,
+    textAlign: 'center',
+    padding: spacing.lg,
+    lineHeight: 22,
+  },
+  footer: {
+    padding: spacing.lg,
+    backgroundColor: colors.card,
+    borderTopWidth: 1,
+    borderTopColor: colors.cardBorder,
+  },
+  helperText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: spacing.sm,
+    textAlign: 'center',
+  },
+});
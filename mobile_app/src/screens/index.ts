@@ -1,3 +1,6 @@
 export { HomeScreen } from './HomeScreen';
 export { LobbyScreen } from './LobbyScreen';
 export { GameScreen } from './GameScreen';
+export { PublicLobbiesScreen } from './PublicLobbiesScreen';
+export { LocalSetupScreen } from './LocalSetupScreen';
+export { LocalGameScreen } from './LocalGameScreen';
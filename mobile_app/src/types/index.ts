@@ -20,6 +20,44 @@ export interface TableRow {
   cards: Card[];
 }
 
+// Pig value schemes
+export type PigScheme = 'sixty_six' | 'classic';
+
+// What happens when a player runs out of time
+export type CardTimeoutPolicy = 'lowest_card' | 'random_card';
+export type RowTimeoutPolicy = 'cheapest_row' | 'random_row';
+
+export interface TurnTimer {
+  // Seconds to pick a card (0 = no limit)
+  selectionSeconds: number;
+  // Seconds to pick a row to take (0 = no limit)
+  rowSelectionSeconds: number;
+  // Seconds the revealed cards stay on screen before they are placed (0 = place at once)
+  revealSeconds: number;
+  // Card played for a player who runs out of time
+  cardPolicy: CardTimeoutPolicy;
+  // Row taken for a player who runs out of time
+  rowPolicy: RowTimeoutPolicy;
+}
+
+// Rule set (carried from the lobby into the game)
+export interface RuleSet {
+  // Game ends once any player reaches this many pigs
+  targetScore: number;
+  // Cards dealt to each player per round
+  handSize: number;
+  // Number of rows on the table
+  rowCount: number;
+  // Cards a row holds before the next card takes it
+  maxRowLength: number;
+  // Cards in the deck, numbered 1 to deckSize
+  deckSize: number;
+  // How many pigs each card is worth
+  pigScheme: PigScheme;
+  // Time limits for each decision
+  turnTimer: TurnTimer;
+}
+
 // Game state
 export type GamePhase = 'waiting' | 'selecting' | 'revealing' | 'placing' | 'row_selection' | 'finished';
 
@@ -32,6 +70,14 @@ export interface RevealedCard {
 export interface GameState {
   phase: GamePhase;
   round: number;
+  // Seed for every deal in this game, so it can be replayed exactly
+  // Online games keep it on the server (null) until the game is finished
+  seed: number | null;
+  rules: RuleSet;
+  // Cards dealt to each player this round (fewer than rules.handSize on crowded tables)
+  handSize: number;
+  // When the current decision times out (ISO timestamp on the server clock)
+  turnDeadline: string | null;
   tableRows: TableRow[];
   currentPlayerIndex: number;
   revealedCards: RevealedCard[];
@@ -45,6 +91,40 @@ export interface GameState {
   } | null;
 }
 
+// Turn resolution types
+export interface TurnState {
+  gameState: GameState;
+  players: Player[];
+}
+
+// Card each player put down this turn, keyed by player id
+export type TurnSelections = Record<string, Card>;
+
+// Row each player chose to take when their card was lower than every row
+export type RowChoices = Record<string, number>;
+
+export type TurnEvent =
+  | { type: 'card_placed'; playerId: string; card: Card; rowIndex: number }
+  | {
+      type: 'row_taken';
+      playerId: string;
+      card: Card;
+      rowIndex: number;
+      cardsTaken: Card[];
+      pigsTaken: number;
+      reason: 'row_full' | 'lowest_card';
+    }
+  | { type: 'round_ended'; round: number }
+  | { type: 'game_over'; winnerId: string };
+
+export interface TurnResult {
+  state: TurnState;
+  events: TurnEvent[];
+}
+
+// Bot strengths
+export type BotDifficulty = 'random' | 'greedy' | 'lookahead';
+
 // Lobby types
 export type LobbyStatus = 'waiting' | 'playing' | 'finished';
 
@@ -54,7 +134,24 @@ export interface Lobby {
   host_id: string;
   status: LobbyStatus;
   created_at: string;
+  rules: RuleSet | null;
   game_state: GameState | null;
+  // Goes up with every game_state change; sent back with moves so stale ones are refused
+  state_version: number;
+  // Listed in the lobby browser while waiting, so anyone can join without the code
+  is_public: boolean;
+  // Seats, counting bots
+  max_players: number;
+  // Joining needs a password (only the server knows it)
+  has_password: boolean;
+}
+
+// A waiting public lobby as the lobby browser shows it
+export interface PublicLobby {
+  lobby: Lobby;
+  playerCount: number;
+  // Null when the host's player row is gone (e.g. mid-handover)
+  hostNickname: string | null;
 }
 
 export interface LobbyPlayer {
@@ -63,15 +160,45 @@ export interface LobbyPlayer {
   player_id: string;
   nickname: string;
   score: number;
-  hand: Card[];
-  selected_card: Card | null;
+  // Whether this player has chosen a card this turn (the card itself stays private)
+  has_selected: boolean;
+  // Row picked while this player's card is waiting in 'row_selection'
+  row_choice: number | null;
   is_ready: boolean;
+  // Bot seats are played by the host's device
+  is_bot: boolean;
+  bot_difficulty: BotDifficulty | null;
   joined_at: string;
 }
 
+// A player's private hand, readable only by its owner (and by the host for bots)
+export interface PlayerHand {
+  lobby_player_id: string;
+  lobby_id: string;
+  player_id: string;
+  hand: Card[];
+  selected_card: Card | null;
+}
+
+// Whether a player has the app open: online, backgrounded (away) or disconnected (offline)
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface PlayerPresence {
+  status: PresenceStatus;
+  // When this device last saw the player online, or null if it never has
+  lastSeenAt: string | null;
+}
+
+// Presence of everyone connected to a lobby or game channel, keyed by player id
+export type LobbyPresence = Record<string, PlayerPresence>;
+
 // Navigation types
 export type RootStackParamList = {
   Home: undefined;
   Lobby: { lobbyCode: string; isHost: boolean };
-  Game: { lobbyCode: string };
+  // Spectators watch without a seat: no hand and no controls
+  Game: { lobbyCode: string; spectating?: boolean };
+  PublicLobbies: undefined;
+  LocalSetup: undefined;
+  LocalGame: { playerNames: string[] };
 };
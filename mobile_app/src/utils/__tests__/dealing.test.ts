@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assertDealPossible, assertGameDealable, planDeal } from '../dealing';
+import { DEFAULT_RULES } from '../rules';
+
+describe('planDeal', () => {
+  it('deals full hands when the deck allows it', () => {
+    assert.deepEqual(planDeal(4, 100, DEFAULT_RULES), { handSize: 10, leftover: 60 });
+    assert.deepEqual(planDeal(10, 100, DEFAULT_RULES), { handSize: 10, leftover: 0 });
+  });
+
+  it('shrinks every hand equally when it does not', () => {
+    // 10 players in a later round, with 20 cards lying on the table
+    assert.deepEqual(planDeal(10, 84, DEFAULT_RULES), { handSize: 8, leftover: 4 });
+    assert.deepEqual(planDeal(10, 9, DEFAULT_RULES), { handSize: 0, leftover: 9 });
+  });
+
+  it('refuses a deal that leaves a player without cards', () => {
+    assert.throws(
+      () => assertDealPossible(planDeal(10, 9, DEFAULT_RULES), 10),
+      /Not enough cards to deal to 10 players/
+    );
+    assert.throws(() => assertDealPossible(planDeal(0, 104, DEFAULT_RULES), 0), /without any/);
+  });
+});
+
+describe('assertGameDealable', () => {
+  // Four full rows of five hold 20 cards, so 10 players need 30 cards for one each
+  const rules = { ...DEFAULT_RULES, rowCount: 4, maxRowLength: 5 };
+
+  it('accepts a deck with exactly one card per player left when every row is full', () => {
+    assert.doesNotThrow(() => assertGameDealable(10, { ...rules, deckSize: 30 }));
+    assert.doesNotThrow(() => assertGameDealable(10, DEFAULT_RULES));
+  });
+
+  it('refuses a deck one card short of that', () => {
+    assert.throws(
+      () => assertGameDealable(10, { ...rules, deckSize: 29 }),
+      /Not enough cards to deal to 10 players/
+    );
+  });
+
+  it('refuses a deck too small to start the rows', () => {
+    assert.throws(
+      () => assertGameDealable(2, { ...rules, deckSize: 3 }),
+      /A 3-card deck cannot start 4 rows/
+    );
+  });
+});
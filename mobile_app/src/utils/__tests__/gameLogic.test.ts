@@ -0,0 +1,154 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Card, GameState, Player, TurnState } from '../../types';
+import { calculatePigValue, initializeGame, resolveTurn } from '../gameLogic';
+import { DEFAULT_RULES } from '../rules';
+
+const card = (number: number): Card => ({ number, pigs: calculatePigValue(number) });
+const row = (...numbers: number[]) => ({ cards: numbers.map(card) });
+
+const player = (id: string, hand: number[], score = 0): Player => ({
+  id,
+  nickname: id,
+  score,
+  hand: hand.map(card),
+  isHost: id === 'alice',
+  isReady: true,
+  selectedCard: null,
+});
+
+// Alice and Bob mid-round, on a table whose rows end in 10, 20, 30 and 40
+const setUp = (
+  hands: { alice: number[]; bob: number[] },
+  scores = { alice: 0, bob: 0 },
+  tableRows = [row(10), row(20), row(30), row(40)]
+): TurnState => {
+  const { gameState } = initializeGame(2, DEFAULT_RULES, 42);
+  const state: GameState = { ...gameState, tableRows };
+  return {
+    gameState: state,
+    players: [player('alice', hands.alice, scores.alice), player('bob', hands.bob, scores.bob)],
+  };
+};
+
+const rowNumbers = (state: TurnState) =>
+  state.gameState.tableRows.map((r) => r.cards.map((c) => c.number));
+
+describe('resolveTurn', () => {
+  it('places each card after the closest lower row end, lowest first', () => {
+    const state = setUp({ alice: [25, 60], bob: [22, 70] });
+
+    const { state: next, events } = resolveTurn(state, { alice: card(25), bob: card(22) });
+
+    // 22 goes after 20, then 25 goes after 22 rather than after 20
+    assert.deepEqual(rowNumbers(next), [[10], [20, 22, 25], [30], [40]]);
+    assert.deepEqual(
+      events.map((event) => event.type === 'card_placed' && [event.playerId, event.rowIndex]),
+      [
+        ['bob', 1],
+        ['alice', 1],
+      ]
+    );
+    assert.equal(next.gameState.phase, 'selecting');
+    assert.deepEqual(
+      next.players.map((p) => p.hand.map((c) => c.number)),
+      [[60], [70]]
+    );
+  });
+
+  it('gives the whole row to whoever plays the card after the last one it holds', () => {
+    const full = [row(10), row(20), row(30), row(41, 42, 43, 45, 50)];
+    const state = setUp({ alice: [51, 60], bob: [12, 70] }, undefined, full);
+
+    const { state: next, events } = resolveTurn(state, { alice: card(51), bob: card(12) });
+
+    // 41, 42, 43 are 1 pig each, 45 is 2 and 50 is 3
+    assert.deepEqual(rowNumbers(next), [[10, 12], [20], [30], [51]]);
+    assert.equal(next.players[0].score, 8);
+    assert.deepEqual(events[1], {
+      type: 'row_taken',
+      playerId: 'alice',
+      card: card(51),
+      rowIndex: 3,
+      cardsTaken: full[3].cards,
+      pigsTaken: 8,
+      reason: 'row_full',
+    });
+  });
+
+  it('waits for a row choice when a card is lower than every row', () => {
+    const state = setUp({ alice: [5, 60], bob: [45, 70] });
+
+    const { state: paused, events } = resolveTurn(state, { alice: card(5), bob: card(45) });
+
+    assert.equal(paused.gameState.phase, 'row_selection');
+    assert.deepEqual(paused.gameState.pendingRowSelection, {
+      playerId: 'alice',
+      playerName: 'alice',
+      card: card(5),
+    });
+    // Nothing is placed yet, but both cards have left the hands
+    assert.deepEqual(events, []);
+    assert.deepEqual(rowNumbers(paused), [[10], [20], [30], [40]]);
+    assert.deepEqual(
+      paused.gameState.pendingPlacements.map((p) => p.card.number),
+      [5, 45]
+    );
+    assert.deepEqual(
+      paused.players.map((p) => p.hand.map((c) => c.number)),
+      [[60], [70]]
+    );
+  });
+
+  it('finishes the turn with the chosen row', () => {
+    const table = [row(10), row(20), row(29, 30), row(40)];
+    const state = setUp({ alice: [5, 60], bob: [45, 70] }, undefined, table);
+    const selections = { alice: card(5), bob: card(45) };
+    const { state: paused } = resolveTurn(state, selections);
+
+    const { state: next, events } = resolveTurn(paused, selections, { alice: 2 });
+
+    // Alice takes 29 and 30 (1 + 3 pigs), then 45 goes after 40
+    assert.deepEqual(rowNumbers(next), [[10], [20], [5], [40, 45]]);
+    assert.deepEqual(
+      next.players.map((p) => p.score),
+      [4, 0]
+    );
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['row_taken', 'card_placed']
+    );
+    assert.equal(next.gameState.phase, 'selecting');
+    assert.equal(next.gameState.pendingRowSelection, null);
+    assert.throws(() => resolveTurn(paused, selections, { alice: 4 }), /Invalid row choice 4/);
+  });
+
+  it('ends the game once someone reaches the target score', () => {
+    const table = [row(10), row(20), row(30), row(36, 37, 38, 39, 40)];
+    const state = setUp({ alice: [41, 60], bob: [12, 70] }, { alice: 60, bob: 10 }, table);
+
+    const { state: next, events } = resolveTurn(state, { alice: card(41), bob: card(12) });
+
+    assert.equal(next.gameState.phase, 'finished');
+    assert.equal(next.players[0].score, 67);
+    assert.deepEqual(events.at(-1), { type: 'game_over', winnerId: 'bob' });
+  });
+
+  it('deals the next round from the game seed once the hands are empty', () => {
+    const state = setUp({ alice: [25], bob: [35] });
+
+    const { state: next, events } = resolveTurn(state, { alice: card(25), bob: card(35) });
+    const again = resolveTurn(state, { alice: card(25), bob: card(35) }).state;
+
+    assert.deepEqual(events.at(-1), { type: 'round_ended', round: 1 });
+    assert.equal(next.gameState.round, 2);
+    // The rows stay, and no card on them is dealt again
+    assert.deepEqual(rowNumbers(next), [[10], [20, 25], [30, 35], [40]]);
+    const onTable = new Set([10, 20, 25, 30, 35, 40]);
+    for (const p of next.players) {
+      assert.equal(p.hand.length, DEFAULT_RULES.handSize);
+      assert.ok(p.hand.every((c) => !onTable.has(c.number)));
+    }
+    assert.deepEqual(next.players, again.players, 'the same seed deals the same round');
+  });
+});
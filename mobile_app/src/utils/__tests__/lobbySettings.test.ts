@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Lobby, TurnTimer } from '../../types';
+import { describeLobbySettings } from '../lobbySettings';
+import { DEFAULT_RULES } from '../rules';
+
+const lobby = (rules: Lobby['rules']): Lobby => ({
+  id: 'lobby',
+  code: 'ABCD',
+  host_id: 'alice',
+  status: 'waiting',
+  created_at: '2026-10-19T00:00:00Z',
+  rules,
+  game_state: null,
+  state_version: 0,
+  is_public: false,
+  max_players: 10,
+  has_password: false,
+});
+
+const timed = (turnTimer: Partial<TurnTimer>) => ({
+  ...DEFAULT_RULES,
+  turnTimer: { ...DEFAULT_RULES.turnTimer, ...turnTimer },
+});
+
+const setting = (rules: Lobby['rules'], label: string) =>
+  describeLobbySettings(lobby(rules)).find((entry) => entry.label === label)?.value;
+
+describe('describeLobbySettings', () => {
+  it('shows what is played for a player who runs out of time', () => {
+    assert.equal(setting(null, 'Out of time'), 'Lowest card, cheapest row');
+
+    const random = timed({ cardPolicy: 'random_card', rowPolicy: 'random_row' });
+    assert.equal(setting(random, 'Out of time'), 'Random card, random row');
+  });
+
+  it('leaves the timeout policies out when there is no turn timer', () => {
+    const untimed = timed({ selectionSeconds: 0 });
+    assert.equal(setting(untimed, 'Turn timer'), 'Off');
+    assert.equal(setting(untimed, 'Out of time'), undefined);
+  });
+});
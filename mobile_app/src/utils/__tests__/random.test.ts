@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { initializeGame, startNewRound } from '../gameLogic';
+import { createRng, createRoundRng, seedFromString } from '../random';
+import { DEFAULT_RULES } from '../rules';
+
+const take = (rng: () => number, count: number) => Array.from({ length: count }, rng);
+
+describe('seeded deals', () => {
+  it('gives the same sequence for the same seed', () => {
+    assert.deepEqual(take(createRng(1234), 20), take(createRng(1234), 20));
+    assert.notDeepEqual(take(createRng(1234), 20), take(createRng(1235), 20));
+    assert.ok(take(createRng(99), 1000).every((n) => n >= 0 && n < 1));
+  });
+
+  it('deals the same hands and rows twice from one seed', () => {
+    const first = initializeGame(5, DEFAULT_RULES, 20260101);
+    const second = initializeGame(5, DEFAULT_RULES, 20260101);
+
+    assert.deepEqual(second.hands, first.hands);
+    assert.deepEqual(second.gameState.tableRows, first.gameState.tableRows);
+    assert.equal(first.gameState.seed, 20260101);
+
+    const other = initializeGame(5, DEFAULT_RULES, 20260102);
+    assert.notDeepEqual(other.hands, first.hands);
+  });
+
+  it('re-deals any round on its own from the game seed', () => {
+    const { gameState } = initializeGame(4, DEFAULT_RULES, 7);
+    const deal = (round: number) =>
+      startNewRound(4, gameState.tableRows, DEFAULT_RULES, createRoundRng(7, round)).hands;
+
+    assert.deepEqual(deal(3), deal(3));
+    assert.notDeepEqual(deal(2), deal(3));
+  });
+
+  it('turns the same text into the same seed', () => {
+    assert.equal(seedFromString('2026-10-19'), seedFromString('2026-10-19'));
+    assert.notEqual(seedFromString('2026-10-19'), seedFromString('2026-10-20'));
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PigScheme, Player, RuleSet } from '../../types';
+import { calculatePigValue, createDeck, initializeGame, resolveTurn } from '../gameLogic';
+import {
+  DEFAULT_RULES,
+  PIG_SCHEMES,
+  assertValidRules,
+  mergeDefaultRules,
+  withDefaultRules,
+} from '../rules';
+
+// Card number, and its pigs under each scheme
+const PIG_VALUES: [number, Record<PigScheme, number>][] = [
+  [1, { sixty_six: 1, classic: 1 }],
+  [5, { sixty_six: 2, classic: 2 }],
+  [10, { sixty_six: 3, classic: 3 }],
+  [11, { sixty_six: -11, classic: 5 }],
+  [15, { sixty_six: 2, classic: 2 }],
+  [44, { sixty_six: -11, classic: 5 }],
+  [55, { sixty_six: -11, classic: 7 }],
+  [66, { sixty_six: -11, classic: 5 }],
+  [99, { sixty_six: -11, classic: 5 }],
+  [100, { sixty_six: 3, classic: 3 }],
+  [104, { sixty_six: 1, classic: 1 }],
+];
+
+const SCHEMES = Object.keys(PIG_SCHEMES) as PigScheme[];
+
+// What taking a row holding 44 and 55 costs under each scheme
+const ROW_OF_44_AND_55: Record<PigScheme, number> = { sixty_six: -22, classic: 12 };
+
+describe('pig schemes', () => {
+  for (const scheme of SCHEMES) {
+    it(`values cards under the ${scheme} scheme`, () => {
+      for (const [number, pigs] of PIG_VALUES) {
+        assert.equal(PIG_SCHEMES[scheme].pigValue(number), pigs[scheme], `card ${number}`);
+        assert.equal(calculatePigValue(number, scheme), pigs[scheme], `card ${number}`);
+      }
+    });
+
+    it(`scores taken rows under the ${scheme} scheme`, () => {
+      const rules: RuleSet = { ...DEFAULT_RULES, pigScheme: scheme };
+      const deck = createDeck(rules);
+      for (const [number, pigs] of PIG_VALUES) {
+        assert.equal(deck[number - 1].pigs, pigs[scheme], `card ${number} in the deck`);
+      }
+
+      // Alice plays 3, lower than every row, and takes the row holding 44 and 55
+      const card = (number: number) => deck[number - 1];
+      const player = (id: string, hand: number[]): Player => ({
+        id,
+        nickname: id,
+        score: 0,
+        hand: hand.map(card),
+        isHost: id === 'alice',
+        isReady: true,
+        selectedCard: null,
+      });
+      const { gameState } = initializeGame(2, rules, 1);
+      const state = {
+        players: [player('alice', [3, 60]), player('bob', [104, 70])],
+        gameState: {
+          ...gameState,
+          tableRows: [[44, 55], [97], [98], [99]].map((row) => ({ cards: row.map(card) })),
+        },
+      };
+      const selections = { alice: card(3), bob: card(104) };
+
+      const paused = resolveTurn(state, selections).state;
+      const { state: next } = resolveTurn(paused, selections, { alice: 0 });
+
+      assert.equal(next.players[0].score, ROW_OF_44_AND_55[scheme]);
+    });
+  }
+});
+
+describe('withDefaultRules', () => {
+  // What a host could write to the lobby row by hand
+  const stored = {
+    targetScore: 33,
+    pigScheme: 'golden',
+    turnTimer: { selectionSeconds: 30, cardPolicy: 'highest_card', rowPolicy: 'random_row' },
+  } as unknown as Partial<RuleSet>;
+
+  it('fills in missing rules from the defaults', () => {
+    assert.deepEqual(withDefaultRules(null), DEFAULT_RULES);
+    assert.deepEqual(withDefaultRules({ targetScore: 99 }), { ...DEFAULT_RULES, targetScore: 99 });
+  });
+
+  it('puts the defaults in place of an unknown pig scheme or timeout policy', () => {
+    const rules = withDefaultRules(stored);
+
+    assert.equal(rules.targetScore, 33);
+    assert.equal(rules.pigScheme, DEFAULT_RULES.pigScheme);
+    assert.equal(PIG_SCHEMES[rules.pigScheme].name, PIG_SCHEMES.sixty_six.name);
+    assert.deepEqual(rules.turnTimer, {
+      ...DEFAULT_RULES.turnTimer,
+      selectionSeconds: 30,
+      rowPolicy: 'random_row',
+    });
+  });
+
+  it('leaves the unknown values for start_game to refuse', () => {
+    assert.throws(() => assertValidRules(mergeDefaultRules(stored)), /unknown pig scheme golden/);
+  });
+});
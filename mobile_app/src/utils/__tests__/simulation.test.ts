@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BotDifficulty, TurnState } from '../../types';
+import { calculatePigValue, initializeGame } from '../gameLogic';
+import { BOT_DIFFICULTIES, chooseBotCard, chooseBotRow } from '../bots';
+import { createRng } from '../random';
+import { DEFAULT_RULES } from '../rules';
+import { assertValidState, runSimulation, simulateGame } from '../simulation';
+
+const card = (number: number) => ({ number, pigs: calculatePigValue(number) });
+const row = (...numbers: number[]) => ({ cards: numbers.map(card) });
+
+const STRATEGIES: BotDifficulty[] = ['greedy', 'random', 'random', 'lookahead'];
+const config = { strategies: STRATEGIES, rules: DEFAULT_RULES };
+
+describe('bots', () => {
+  // Rows ending in 10, 20, 30 and a full one ending in 40
+  const rows = [row(10), row(20), row(30), row(36, 37, 38, 39, 40)];
+  const hand = [5, 41, 25].map(card);
+  const view = { hand, tableRows: rows, rules: DEFAULT_RULES, numPlayers: 4 };
+
+  it('play a card from their hand', () => {
+    const rng = createRng(3);
+    for (const difficulty of Object.keys(BOT_DIFFICULTIES) as BotDifficulty[]) {
+      const played = chooseBotCard(difficulty, view, rng);
+      assert.ok(view.hand.some((c) => c.number === played.number));
+    }
+  });
+
+  it('avoid taking pigs when they can (greedy and lookahead)', () => {
+    // 5 takes a row and 41 takes the full row; only 25 is placed for free
+    assert.equal(chooseBotCard('greedy', view).number, 25);
+    assert.equal(chooseBotCard('lookahead', view, createRng(1)).number, 25);
+  });
+
+  it('take the cheapest row, unless they play at random', () => {
+    const choice = [row(10, 15), row(20), row(30, 31), row(40, 45)];
+    assert.equal(chooseBotRow('greedy', choice), 1);
+    assert.equal(chooseBotRow('lookahead', choice), 1);
+    const picked = chooseBotRow('random', choice, createRng(9));
+    assert.ok(picked >= 0 && picked < choice.length);
+  });
+});
+
+describe('assertValidState', () => {
+  const valid = (): TurnState => {
+    const { gameState, hands } = initializeGame(2, DEFAULT_RULES, 5);
+    const players = hands.map((hand, seat) => ({
+      id: `seat_${seat}`,
+      nickname: `Seat ${seat + 1}`,
+      score: 0,
+      hand,
+      isHost: seat === 0,
+      isReady: true,
+      selectedCard: null,
+    }));
+    return { gameState, players };
+  };
+
+  it('accepts a fresh deal', () => {
+    assert.doesNotThrow(() => assertValidState(valid()));
+  });
+
+  it('catches broken states', () => {
+    const duplicated = valid();
+    duplicated.players[1].hand[0] = duplicated.players[0].hand[0];
+    assert.throws(() => assertValidState(duplicated), /appears twice/);
+
+    const uneven = valid();
+    uneven.players[1].hand.pop();
+    assert.throws(() => assertValidState(uneven), /Uneven hands/);
+
+    const overfull = valid();
+    overfull.gameState.tableRows[0] = row(101, 102, 103, 104, 100, 99);
+    assert.throws(() => assertValidState(overfull), /has 6 cards/);
+  });
+});
+
+describe('runSimulation', () => {
+  const summary = runSimulation(config, 12, 1000);
+
+  it('plays every game without breaking an invariant', () => {
+    assert.equal(summary.failedGames, 0, summary.errors.join('\n'));
+    assert.equal(summary.games, 12);
+    assert.ok(summary.averageRounds >= 1);
+  });
+
+  it('shares out exactly one win per game, splitting ties', () => {
+    const totalWins = summary.seats.reduce((sum, seat) => sum + seat.wins, 0);
+    assert.ok(Math.abs(totalWins - summary.games) < 1e-9);
+    const totalRate = summary.seats.reduce((sum, seat) => sum + seat.winRate, 0);
+    assert.ok(Math.abs(totalRate - 1) < 1e-9);
+  });
+
+  it('sums seats up by strategy', () => {
+    assert.deepEqual(
+      summary.seats.map(({ seat, strategy }) => [seat, strategy]),
+      STRATEGIES.map((strategy, index) => [index + 1, strategy])
+    );
+    assert.equal(summary.strategies.random?.seats, 2);
+    assert.equal(
+      summary.strategies.random?.wins,
+      summary.seats[1].wins + summary.seats[2].wins
+    );
+    assert.ok(summary.decidedByDoublesRate >= 0 && summary.decidedByDoublesRate <= 1);
+  });
+
+  it('replays a game exactly from its seed', () => {
+    assert.deepEqual(simulateGame(config, 1003), simulateGame(config, 1003));
+    assert.deepEqual(runSimulation(config, 12, 1000), summary);
+  });
+
+  it('records each game consistently with its final scores', () => {
+    for (let seed = 1000; seed < 1012; seed++) {
+      const record = simulateGame(config, seed);
+      const lowest = Math.min(...record.finalScores);
+      assert.deepEqual(
+        record.winners,
+        record.finalScores.flatMap((score, seat) => (score === lowest ? [seat] : []))
+      );
+      assert.ok(record.finalScores.some((score) => score >= DEFAULT_RULES.targetScore));
+    }
+  });
+
+  it('never credits doubles with a win when no card is worth negative pigs', () => {
+    const classic = { ...config, rules: { ...DEFAULT_RULES, pigScheme: 'classic' as const } };
+    assert.equal(runSimulation(classic, 6, 1).decidedByDoublesRate, 0);
+  });
+});
@@ -0,0 +1,174 @@
+import { BotDifficulty, Card, RuleSet, TableRow } from '../types';
+import {
+  calculateRowPigs,
+  createDeck,
+  findRowForCard,
+  findSmallestRow,
+  placeCardInRow,
+  shuffleDeck,
+  takeRow,
+} from './gameLogic';
+import { Rng } from './random';
+
+// What a bot can see when it makes a decision
+export interface BotView {
+  hand: Card[];
+  tableRows: TableRow[];
+  rules: RuleSet;
+  numPlayers: number;
+}
+
+export const BOT_DIFFICULTIES: Record<BotDifficulty, { name: string; description: string }> = {
+  random: { name: 'Easy', description: 'Plays any card' },
+  greedy: { name: 'Medium', description: 'Avoids pigs this turn' },
+  lookahead: { name: 'Hard', description: "Guesses everyone else's cards" },
+};
+
+const BOT_NAMES = ['Porky', 'Hamlet', 'Truffles', 'Bacon', 'Wilbur', 'Peppa', 'Snort', 'Oinkers'];
+
+// Random games sampled per card by the lookahead bot
+const LOOKAHEAD_SAMPLES = 200;
+
+/**
+ * Generate the player ID for a bot seat
+ */
+export const generateBotId = (): string => {
+  return 'bot_' + Math.random().toString(36).substring(2, 15);
+};
+
+/**
+ * Pick a name for a new bot seat, avoiding names already at the table
+ */
+export const generateBotName = (takenNames: string[], rng: Rng = Math.random): string => {
+  const available = BOT_NAMES.filter((name) => !takenNames.includes(`🤖 ${name}`));
+  const pool = available.length > 0 ? available : BOT_NAMES;
+  return `🤖 ${pool[Math.floor(rng() * pool.length)]}`;
+};
+
+/**
+ * Pigs a card would take if it were the only card played this turn
+ * Cards lower than every row take the cheapest row
+ */
+const immediateCost = (card: Card, rows: TableRow[], rules: RuleSet): number => {
+  const rowIndex = findRowForCard(card, rows);
+  if (rowIndex === -1) {
+    return calculateRowPigs(rows[findSmallestRow(rows)]);
+  }
+  if (rows[rowIndex].cards.length >= rules.maxRowLength) {
+    return calculateRowPigs(rows[rowIndex]);
+  }
+  return 0;
+};
+
+/**
+ * Pigs the bot's card takes once every card this turn is placed, lowest first
+ * Any player who must take a row takes the cheapest one
+ */
+const simulatedCost = (
+  card: Card,
+  otherCards: Card[],
+  rows: TableRow[],
+  rules: RuleSet
+): number => {
+  const turnCards = [card, ...otherCards].sort((a, b) => a.number - b.number);
+  let currentRows = rows;
+  let cost = 0;
+
+  for (const turnCard of turnCards) {
+    const rowIndex = findRowForCard(turnCard, currentRows);
+    const { newRows, pigsTaken } = rowIndex === -1
+      ? takeRow(turnCard, findSmallestRow(currentRows), currentRows)
+      : placeCardInRow(turnCard, rowIndex, currentRows, rules);
+    currentRows = newRows;
+
+    if (turnCard.number === card.number) {
+      cost = pigsTaken;
+    }
+  }
+
+  return cost;
+};
+
+/**
+ * Choose the card with the lowest score, breaking ties towards the safest card
+ * (the one landing closest to its row end, so others are least likely to undercut it)
+ */
+const pickCheapestCard = (
+  hand: Card[],
+  rows: TableRow[],
+  score: (card: Card) => number
+): Card => {
+  const gap = (card: Card): number => {
+    const rowIndex = findRowForCard(card, rows);
+    if (rowIndex === -1) return Infinity;
+    const row = rows[rowIndex].cards;
+    return card.number - row[row.length - 1].number;
+  };
+
+  let best = hand[0];
+  let bestScore = score(best);
+  for (const card of hand.slice(1)) {
+    const cardScore = score(card);
+    if (cardScore < bestScore || (cardScore === bestScore && gap(card) < gap(best))) {
+      best = card;
+      bestScore = cardScore;
+    }
+  }
+  return best;
+};
+
+/**
+ * Choose the card a bot plays this turn
+ * - random: any card in hand
+ * - greedy: the card taking the fewest pigs if placed on its own
+ * - lookahead: the card taking the fewest pigs on average over random guesses
+ *   of the other players' cards, drawn from the cards the bot cannot see
+ */
+export const chooseBotCard = (
+  difficulty: BotDifficulty,
+  view: BotView,
+  rng: Rng = Math.random
+): Card => {
+  const { hand, tableRows, rules, numPlayers } = view;
+
+  if (difficulty === 'random') {
+    return hand[Math.floor(rng() * hand.length)];
+  }
+
+  if (difficulty === 'greedy') {
+    return pickCheapestCard(hand, tableRows, (card) => immediateCost(card, tableRows, rules));
+  }
+
+  const visible = new Set([
+    ...hand.map((card) => card.number),
+    ...tableRows.flatMap((row) => row.cards.map((card) => card.number)),
+  ]);
+  const unseen = createDeck(rules).filter((card) => !visible.has(card.number));
+  const opponents = Math.min(numPlayers - 1, unseen.length);
+
+  const totals = new Map<number, number>(hand.map((card) => [card.number, 0]));
+  for (let sample = 0; sample < LOOKAHEAD_SAMPLES; sample++) {
+    const otherCards = shuffleDeck(unseen, rng).slice(0, opponents);
+    for (const card of hand) {
+      const cost = simulatedCost(card, otherCards, tableRows, rules);
+      totals.set(card.number, (totals.get(card.number) ?? 0) + cost);
+    }
+  }
+
+  return pickCheapestCard(hand, tableRows, (card) => totals.get(card.number) ?? 0);
+};
+
+/**
+ * Choose the row a bot takes when its card is lower than every row
+ * Easy bots take any row; the others take the cheapest
+ */
+export const chooseBotRow = (
+  difficulty: BotDifficulty,
+  rows: TableRow[],
+  rng: Rng = Math.random
+): number => {
+  if (difficulty === 'random') {
+    return Math.floor(rng() * rows.length);
+  }
+  return findSmallestRow(rows);
+};
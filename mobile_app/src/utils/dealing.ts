@@ -0,0 +1,50 @@
+import { RuleSet } from '../types';
+
+export interface DealPlan {
+  // Cards dealt to each player (the number of turns in the round)
+  handSize: number;
+  // Cards left over in the deck after dealing
+  leftover: number;
+}
+
+/**
+ * Plan a deal from the player count and the cards available
+ * Every player gets rules.handSize cards when the deck allows it; otherwise
+ * hands shrink to the most cards every player can get equally
+ * (e.g. 10 players in a later round, with cards still lying on the table)
+ */
+export const planDeal = (numPlayers: number, cardsAvailable: number, rules: RuleSet): DealPlan => {
+  const handSize = numPlayers > 0
+    ? Math.min(rules.handSize, Math.floor(cardsAvailable / numPlayers))
+    : 0;
+
+  return {
+    handSize,
+    leftover: cardsAvailable - handSize * numPlayers,
+  };
+};
+
+/**
+ * Refuse a deal that would leave a player without cards
+ */
+export const assertDealPossible = (plan: DealPlan, numPlayers: number): void => {
+  if (numPlayers < 1) {
+    throw new Error('Cannot deal without any players');
+  }
+  if (plan.handSize < 1) {
+    throw new Error(`Not enough cards to deal to ${numPlayers} players`);
+  }
+};
+
+/**
+ * Check that every round of a game can be dealt before it starts
+ * The worst case is a round dealt while every row on the table is full
+ */
+export const assertGameDealable = (numPlayers: number, rules: RuleSet): void => {
+  if (rules.deckSize < rules.rowCount) {
+    throw new Error(`A ${rules.deckSize}-card deck cannot start ${rules.rowCount} rows`);
+  }
+
+  const worstCaseCards = rules.deckSize - rules.rowCount * rules.maxRowLength;
+  assertDealPossible(planDeal(numPlayers, worstCaseCards, rules), numPlayers);
+};
@@ -1,38 +1,43 @@
-import { Card, TableRow, GameState, Player } from '../types';
-
-// Special cards that have -11 pig value (good for players!)
-const SPECIAL_DOUBLES = [11, 22, 33, 44, 55, 66, 77, 88, 99];
+import {
+  Card,
+  TableRow,
+  GameState,
+  Player,
+  TurnState,
+  TurnSelections,
+  RowChoices,
+  TurnEvent,
+  TurnResult,
+  RevealedCard,
+  RuleSet,
+  PigScheme,
+  CardTimeoutPolicy,
+  RowTimeoutPolicy,
+} from '../types';
+import { Rng, createRoundRng, generateSeed } from './random';
+import { DEFAULT_RULES, PIG_SCHEMES } from './rules';
+import { planDeal, assertDealPossible, assertGameDealable } from './dealing';
 
 /**
- * Calculate the pig value of a card
- * Modified from 6 Nimmt! rules:
- * - Cards 11, 22, 33, 44, 55, 66, 77, 88, 99 = -11 pigs (beneficial!)
- * - Cards ending in 5 = 2 pigs
- * - Cards ending in 0 = 3 pigs
- * - Other cards = 1 pig
+ * Calculate the pig value of a card under the given scheme
+ * See PIG_SCHEMES for the values of each scheme
  */
-export const calculatePigValue = (cardNumber: number): number => {
-  if (SPECIAL_DOUBLES.includes(cardNumber)) {
-    return -11;
-  }
-  if (cardNumber % 10 === 5) {
-    return 2;
-  }
-  if (cardNumber % 10 === 0) {
-    return 3;
-  }
-  return 1;
+export const calculatePigValue = (
+  cardNumber: number,
+  scheme: PigScheme = DEFAULT_RULES.pigScheme
+): number => {
+  return PIG_SCHEMES[scheme].pigValue(cardNumber);
 };
 
 /**
- * Create a deck of 104 cards numbered 1-104
+ * Create a deck of cards numbered 1 to rules.deckSize (104 by default)
  */
-export const createDeck = (): Card[] => {
+export const createDeck = (rules: RuleSet = DEFAULT_RULES): Card[] => {
   const deck: Card[] = [];
-  for (let i = 1; i <= 104; i++) {
+  for (let i = 1; i <= rules.deckSize; i++) {
     deck.push({
       number: i,
-      pigs: calculatePigValue(i),
+      pigs: calculatePigValue(i, rules.pigScheme),
     });
   }
   return deck;
@@ -40,26 +45,38 @@ export const createDeck = (): Card[] => {
 
 /**
  * Shuffle the deck using Fisher-Yates algorithm
+ * Pass a seeded rng to get a reproducible order
  */
-export const shuffleDeck = (deck: Card[]): Card[] => {
+export const shuffleDeck = (deck: Card[], rng: Rng = Math.random): Card[] => {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 };
 
 /**
- * Deal cards to players (10 cards each)
+ * Deal cards to players (handSize cards each, see planDeal)
+ * Throws rather than deal a hand with missing cards
  */
-export const dealCards = (deck: Card[], numPlayers: number): { hands: Card[][]; remainingDeck: Card[] } => {
+export const dealCards = (
+  deck: Card[],
+  numPlayers: number,
+  handSize: number = DEFAULT_RULES.handSize
+): { hands: Card[][]; remainingDeck: Card[] } => {
+  if (deck.length < numPlayers * handSize) {
+    throw new Error(
+      `Cannot deal ${handSize} cards to ${numPlayers} players from ${deck.length} cards`
+    );
+  }
+
   const hands: Card[][] = [];
   let deckIndex = 0;
 
   for (let p = 0; p < numPlayers; p++) {
     const hand: Card[] = [];
-    for (let c = 0; c < 10; c++) {
+    for (let c = 0; c < handSize; c++) {
       hand.push(deck[deckIndex]);
       deckIndex++;
     }
@@ -75,11 +92,14 @@ export const dealCards = (deck: Card[], numPlayers: number): { hands: Card[][];
 };
 
 /**
- * Initialize the 4 table rows with one card each
+ * Initialize the table rows (rules.rowCount of them) with one card each
  */
-export const initializeTableRows = (deck: Card[]): { rows: TableRow[]; remainingDeck: Card[] } => {
+export const initializeTableRows = (
+  deck: Card[],
+  rules: RuleSet = DEFAULT_RULES
+): { rows: TableRow[]; remainingDeck: Card[] } => {
   const rows: TableRow[] = [];
-  for (let i = 0; i < 4; i++) {
+  for (let i = 0; i < rules.rowCount; i++) {
     rows.push({ cards: [deck[i]] });
   }
   // Sort rows by the starting card number
@@ -87,7 +107,7 @@ export const initializeTableRows = (deck: Card[]): { rows: TableRow[]; remaining
 
   return {
     rows,
-    remainingDeck: deck.slice(4),
+    remainingDeck: deck.slice(rules.rowCount),
   };
 };
 
@@ -123,19 +143,21 @@ export const calculateRowPigs = (row: TableRow): number => {
 
 /**
  * Place a card in a row
- * If the row already has 5 cards, the player takes all 5 cards and their pigs
+ * If the row is already full (rules.maxRowLength cards), the player takes all
+ * of its cards and their pigs
  * Returns the pigs taken (0 if card was just placed)
  */
 export const placeCardInRow = (
   card: Card,
   rowIndex: number,
-  rows: TableRow[]
+  rows: TableRow[],
+  rules: RuleSet = DEFAULT_RULES
 ): { newRows: TableRow[]; pigsTaken: number; cardsTaken: Card[] } => {
   const newRows = rows.map((row) => ({ cards: [...row.cards] }));
   const targetRow = newRows[rowIndex];
 
-  // If row has 5 cards, player takes them all
-  if (targetRow.cards.length >= 5) {
+  // If row is full, player takes them all
+  if (targetRow.cards.length >= rules.maxRowLength) {
     const pigsTaken = calculateRowPigs(targetRow);
     const cardsTaken = [...targetRow.cards];
     // Replace row with just the new card
@@ -195,10 +217,10 @@ export const sortRevealedCards = <T extends { card: Card }>(
 };
 
 /**
- * Check if game is over (any player reached 66 pigs)
+ * Check if game is over (any player reached the target score, 66 by default)
  */
-export const isGameOver = (players: Player[]): boolean => {
-  return players.some((player) => player.score >= 66);
+export const isGameOver = (players: Player[], rules: RuleSet = DEFAULT_RULES): boolean => {
+  return players.some((player) => player.score >= rules.targetScore);
 };
 
 /**
@@ -219,23 +241,37 @@ export const isRoundComplete = (players: Player[]): boolean => {
 
 /**
  * Initialize a new game state
+ * The seed is kept in the game state so the whole game can be re-dealt exactly
+ * Throws if some round of the game could not be dealt to this many players
  */
-export const initializeGame = (numPlayers: number): {
+export const initializeGame = (
+  numPlayers: number,
+  rules: RuleSet = DEFAULT_RULES,
+  seed: number = generateSeed()
+): {
   gameState: GameState;
   hands: Card[][];
 } => {
-  let deck = createDeck();
-  deck = shuffleDeck(deck);
+  assertGameDealable(numPlayers, rules);
 
-  // Initialize 4 rows with one card each
-  const { rows, remainingDeck } = initializeTableRows(deck);
+  let deck = createDeck(rules);
+  deck = shuffleDeck(deck, createRoundRng(seed, 1));
 
-  // Deal 10 cards to each player
-  const { hands } = dealCards(remainingDeck, numPlayers);
+  // Initialize the rows with one card each
+  const { rows, remainingDeck } = initializeTableRows(deck, rules);
+
+  // Deal each player as many cards as the plan allows
+  const plan = planDeal(numPlayers, remainingDeck.length, rules);
+  assertDealPossible(plan, numPlayers);
+  const { hands } = dealCards(remainingDeck, numPlayers, plan.handSize);
 
   const gameState: GameState = {
     phase: 'selecting',
     round: 1,
+    seed,
+    rules,
+    handSize: plan.handSize,
+    turnDeadline: null,
     tableRows: rows,
     currentPlayerIndex: 0,
     revealedCards: [],
@@ -249,12 +285,17 @@ export const initializeGame = (numPlayers: number): {
 /**
  * Start a new round while keeping the existing table rows
  * This is called at the end of a round when all hands are empty
+ * Every card not on the table is dealt again, and hands shrink when
+ * there are not enough of them to give everyone rules.handSize cards
  */
 export const startNewRound = (
   numPlayers: number,
-  existingRows: TableRow[]
+  existingRows: TableRow[],
+  rules: RuleSet = DEFAULT_RULES,
+  rng: Rng = Math.random
 ): {
   hands: Card[][];
+  handSize: number;
   cardsOnTable: number[];
 } => {
   // Get all card numbers currently on the table
@@ -266,11 +307,229 @@ export const startNewRound = (
   }
 
   // Create a deck excluding cards already on the table
-  let deck = createDeck().filter(card => !cardsOnTable.includes(card.number));
-  deck = shuffleDeck(deck);
+  let deck = createDeck(rules).filter(card => !cardsOnTable.includes(card.number));
+  deck = shuffleDeck(deck, rng);
+
+  // Deal each player as many cards as the plan allows
+  const plan = planDeal(numPlayers, deck.length, rules);
+  assertDealPossible(plan, numPlayers);
+  const { hands } = dealCards(deck, numPlayers, plan.handSize);
 
-  // Deal 10 cards to each player
-  const { hands } = dealCards(deck, numPlayers);
+  return { hands, handSize: plan.handSize, cardsOnTable };
+};
+
+
+/**
+ * Add pigs to one player's score
+ */
+const addPigs = (players: Player[], playerId: string, pigs: number): Player[] => {
+  return players.map((player) =>
+    player.id === playerId ? { ...player, score: player.score + pigs } : player
+  );
+};
+
+/**
+ * Resolve one turn of play without side effects
+ *
+ * A fresh turn (phase 'selecting' or 'revealing') reveals the selections,
+ * removes them from the players' hands and places them lowest first.
+ * When a card is lower than every row and its player has no entry in
+ * rowChoices, the returned state is paused in 'row_selection' with the
+ * remaining cards in pendingPlacements; call again with the choice to finish.
+ * After the last placement the state moves on to the next turn, the next
+ * round (dealt from the game seed) or the end of the game.
+ */
+export const resolveTurn = (
+  state: TurnState,
+  selections: TurnSelections,
+  rowChoices: RowChoices = {}
+): TurnResult => {
+  const { gameState } = state;
+  const { rules } = gameState;
+  const events: TurnEvent[] = [];
+  let players = state.players;
+  let revealedCards = gameState.revealedCards;
+  let placements = gameState.pendingPlacements;
+
+  if (gameState.phase !== 'row_selection') {
+    revealedCards = sortRevealedCards(
+      players
+        .filter((player) => selections[player.id])
+        .map(
+          (player): RevealedCard => ({
+            playerId: player.id,
+            playerName: player.nickname,
+            card: selections[player.id],
+          })
+        )
+    );
+    placements = revealedCards.map(({ playerId, card }) => ({ playerId, card }));
+    players = players.map((player) => ({
+      ...player,
+      hand: player.hand.filter((c) => c.number !== selections[player.id]?.number),
+      selectedCard: null,
+    }));
+  }
+
+  let tableRows = gameState.tableRows;
+
+  for (let i = 0; i < placements.length; i++) {
+    const { playerId, card } = placements[i];
+    const rowIndex = findRowForCard(card, tableRows);
+
+    if (rowIndex === -1) {
+      const chosenRow = rowChoices[playerId];
+
+      if (chosenRow === undefined) {
+        // Wait for the player to pick the row they will take
+        const player = players.find((p) => p.id === playerId);
+        return {
+          state: {
+            players,
+            gameState: {
+              ...gameState,
+              phase: 'row_selection',
+              tableRows,
+              revealedCards,
+              pendingPlacements: placements.slice(i),
+              pendingRowSelection: {
+                playerId,
+                playerName: player?.nickname ?? '',
+                card,
+              },
+            },
+          },
+          events,
+        };
+      }
+
+      if (chosenRow < 0 || chosenRow >= tableRows.length) {
+        throw new Error(`Invalid row choice ${chosenRow} for card ${card.number}`);
+      }
+
+      const { newRows, pigsTaken, cardsTaken } = takeRow(card, chosenRow, tableRows);
+      tableRows = newRows;
+      players = addPigs(players, playerId, pigsTaken);
+      events.push({
+        type: 'row_taken',
+        playerId,
+        card,
+        rowIndex: chosenRow,
+        cardsTaken,
+        pigsTaken,
+        reason: 'lowest_card',
+      });
+    } else {
+      const { newRows, pigsTaken, cardsTaken } = placeCardInRow(card, rowIndex, tableRows, rules);
+      tableRows = newRows;
+
+      if (cardsTaken.length > 0) {
+        players = addPigs(players, playerId, pigsTaken);
+        events.push({
+          type: 'row_taken',
+          playerId,
+          card,
+          rowIndex,
+          cardsTaken,
+          pigsTaken,
+          reason: 'row_full',
+        });
+      } else {
+        events.push({ type: 'card_placed', playerId, card, rowIndex });
+      }
+    }
+  }
 
-  return { hands, cardsOnTable };
+  const settledState: GameState = {
+    ...gameState,
+    phase: 'selecting',
+    tableRows,
+    revealedCards: [],
+    pendingPlacements: [],
+    pendingRowSelection: null,
+  };
+
+  if (isGameOver(players, rules)) {
+    events.push({ type: 'game_over', winnerId: getWinner(players).id });
+    return {
+      state: { players, gameState: { ...settledState, phase: 'finished' } },
+      events,
+    };
+  }
+
+  if (isRoundComplete(players)) {
+    events.push({ type: 'round_ended', round: gameState.round });
+
+    if (gameState.seed === null) {
+      throw new Error('Cannot deal the next round without the game seed');
+    }
+
+    // Start a new round - KEEP THE EXISTING TABLE ROWS
+    const nextRound = gameState.round + 1;
+    const { hands, handSize } = startNewRound(
+      players.length,
+      tableRows,
+      rules,
+      createRoundRng(gameState.seed, nextRound)
+    );
+    return {
+      state: {
+        players: players.map((player, index) => ({ ...player, hand: hands[index] })),
+        gameState: { ...settledState, round: nextRound, handSize, currentPlayerIndex: 0 },
+      },
+      events,
+    };
+  }
+
+  return { state: { players, gameState: settledState }, events };
+};
+
+/**
+ * Set the deadline for the decision the state is waiting on
+ * Selecting, revealing and row selection get the rule set's time limits; other phases have none
+ * now is the current time on the server clock, in milliseconds
+ */
+export const stampTurnDeadline = (gameState: GameState, now: number): GameState => {
+  const { turnTimer } = gameState.rules;
+  let seconds = 0;
+  if (gameState.phase === 'selecting') {
+    seconds = turnTimer.selectionSeconds;
+  } else if (gameState.phase === 'revealing') {
+    seconds = turnTimer.revealSeconds;
+  } else if (gameState.phase === 'row_selection') {
+    seconds = turnTimer.rowSelectionSeconds;
+  }
+
+  return {
+    ...gameState,
+    turnDeadline: seconds > 0 ? new Date(now + seconds * 1000).toISOString() : null,
+  };
+};
+
+/**
+ * Pick the card played for a player who ran out of time
+ */
+export const pickTimeoutCard = (
+  hand: Card[],
+  policy: CardTimeoutPolicy,
+  rng: Rng = Math.random
+): Card => {
+  if (policy === 'random_card') {
+    return hand[Math.floor(rng() * hand.length)];
+  }
+  return hand.reduce((lowest, card) => (card.number < lowest.number ? card : lowest));
+};
+
+/**
+ * Pick the row taken for a player who ran out of time
+ */
+export const pickTimeoutRow = (
+  rows: TableRow[],
+  policy: RowTimeoutPolicy,
+  rng: Rng = Math.random
+): number => {
+  if (policy === 'random_row') {
+    return Math.floor(rng() * rows.length);
+  }
+  return findSmallestRow(rows);
 };
@@ -0,0 +1,54 @@
+import { CardTimeoutPolicy, Lobby, RowTimeoutPolicy, TurnTimer } from '../types';
+import { PIG_SCHEMES, withDefaultRules } from './rules';
+
+// Choices the host's settings sheet offers
+export const TARGET_SCORE_OPTIONS = [33, 66, 99];
+export const TURN_TIMER_OPTIONS: Pick<TurnTimer, 'selectionSeconds' | 'rowSelectionSeconds'>[] = [
+  { selectionSeconds: 30, rowSelectionSeconds: 15 },
+  { selectionSeconds: 60, rowSelectionSeconds: 30 },
+  { selectionSeconds: 120, rowSelectionSeconds: 60 },
+  { selectionSeconds: 0, rowSelectionSeconds: 0 },
+];
+export const REVEAL_SECONDS_OPTIONS = [0, 3, 5, 10];
+
+// What the server plays for a player whose time runs out
+export const CARD_POLICY_LABELS: Record<CardTimeoutPolicy, string> = {
+  lowest_card: 'Lowest card',
+  random_card: 'Random card',
+};
+export const ROW_POLICY_LABELS: Record<RowTimeoutPolicy, string> = {
+  cheapest_row: 'Cheapest row',
+  random_row: 'Random row',
+};
+
+/**
+ * Format a time limit in seconds for the settings ("Off" when there is none)
+ */
+export const formatSeconds = (seconds: number): string => {
+  if (seconds <= 0) return 'Off';
+  if (seconds % 60 === 0) return `${seconds / 60} min`;
+  return `${seconds}s`;
+};
+
+/**
+ * List a lobby's settings as label and value pairs, for everyone to read before the game
+ */
+export const describeLobbySettings = (lobby: Lobby): { label: string; value: string }[] => {
+  const rules = withDefaultRules(lobby.rules);
+  const { selectionSeconds, rowSelectionSeconds, revealSeconds, cardPolicy, rowPolicy } =
+    rules.turnTimer;
+  const [pick, row] = [formatSeconds(selectionSeconds), formatSeconds(rowSelectionSeconds)];
+  const timer = `${pick} to pick, ${row} for a row`;
+  const policy = `${CARD_POLICY_LABELS[cardPolicy]}, ${ROW_POLICY_LABELS[rowPolicy].toLowerCase()}`;
+
+  return [
+    { label: 'Players', value: `Up to ${lobby.max_players}` },
+    { label: 'Game ends at', value: `${rules.targetScore} pigs` },
+    { label: 'Pig values', value: PIG_SCHEMES[rules.pigScheme].name },
+    { label: 'Turn timer', value: selectionSeconds > 0 ? timer : 'Off' },
+    ...(selectionSeconds > 0 ? [{ label: 'Out of time', value: policy }] : []),
+    { label: 'Reveal countdown', value: formatSeconds(revealSeconds) },
+    { label: 'Visibility', value: lobby.is_public ? 'Public' : 'Private (code only)' },
+    { label: 'Password', value: lobby.has_password ? 'Required' : 'None' },
+  ];
+};
@@ -0,0 +1,58 @@
+import { Player, RuleSet, TurnState } from '../types';
+import { initializeGame } from './gameLogic';
+import { DEFAULT_RULES } from './rules';
+import { generateSeed } from './random';
+
+// Seats at a pass-and-play table
+export const MIN_LOCAL_PLAYERS = 2;
+export const MAX_LOCAL_PLAYERS = 10;
+
+/**
+ * Check the names entered for a pass-and-play game
+ * Returns a message describing the first problem, or null if the names are fine
+ */
+export const validateLocalPlayerNames = (names: string[]): string | null => {
+  const trimmed = names.map((name) => name.trim());
+
+  if (trimmed.length < MIN_LOCAL_PLAYERS || trimmed.length > MAX_LOCAL_PLAYERS) {
+    return `A game needs ${MIN_LOCAL_PLAYERS}-${MAX_LOCAL_PLAYERS} players`;
+  }
+  if (trimmed.some((name) => name.length < 2 || name.length > 15)) {
+    return 'Every name must be 2-15 characters long';
+  }
+  if (new Set(trimmed.map((name) => name.toLowerCase())).size !== trimmed.length) {
+    return 'Every player needs a different name';
+  }
+  return null;
+};
+
+/**
+ * Deal a pass-and-play game for players sharing one device
+ * Everything stays in memory: there is no lobby, and no timer
+ */
+export const createLocalGame = (
+  names: string[],
+  rules: RuleSet = DEFAULT_RULES,
+  seed: number = generateSeed()
+): TurnState => {
+  const localRules: RuleSet = {
+    ...rules,
+    turnTimer: { ...rules.turnTimer, selectionSeconds: 0, rowSelectionSeconds: 0, revealSeconds: 0 },
+  };
+  const { gameState, hands } = initializeGame(names.length, localRules, seed);
+
+  return {
+    gameState,
+    players: hands.map(
+      (hand, seat): Player => ({
+        id: `local_${seat}`,
+        nickname: names[seat].trim(),
+        score: 0,
+        hand,
+        isHost: seat === 0,
+        isReady: true,
+        selectedCard: null,
+      })
+    ),
+  };
+};
@@ -0,0 +1,42 @@
+import { PublicLobby } from '../types';
+import { assertGameDealable } from './dealing';
+import { withDefaultRules } from './rules';
+
+// Seats a host can offer at an online table (6 Nimmt! plays 2-10)
+export const MIN_LOBBY_PLAYERS = 2;
+export const MAX_LOBBY_PLAYERS = 10;
+
+/**
+ * Whether one more player could join a public lobby and still get a game
+ * The lobby needs a free seat, and its rules need enough cards for the bigger table.
+ */
+export const canJoinPublicLobby = ({ lobby, playerCount }: PublicLobby): boolean => {
+  if (lobby.status !== 'waiting' || playerCount >= lobby.max_players) {
+    return false;
+  }
+
+  try {
+    assertGameDealable(playerCount + 1, withDefaultRules(lobby.rules));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Pick the lobby Quick Match should join: the fullest one that still has room
+ * Fuller lobbies start sooner; ties go to the lobby that has waited longest.
+ * Lobbies with a password are left to players who know it.
+ * Returns null when no public lobby can take another player.
+ */
+export const pickQuickMatchLobby = (lobbies: PublicLobby[]): PublicLobby | null => {
+  const open = lobbies.filter((entry) => !entry.lobby.has_password && canJoinPublicLobby(entry));
+  const candidates = open.sort((a, b) => {
+    if (a.playerCount !== b.playerCount) {
+      return b.playerCount - a.playerCount;
+    }
+    return a.lobby.created_at.localeCompare(b.lobby.created_at);
+  });
+
+  return candidates[0] ?? null;
+};
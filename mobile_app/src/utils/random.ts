@@ -0,0 +1,45 @@
+// A source of random floats in [0, 1), interchangeable with Math.random
+export type Rng = () => number;
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ * The same seed always produces the same sequence
+ */
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Generate a new random 32-bit seed
+ */
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 4294967296);
+};
+
+/**
+ * Turn any text (a date, a tournament name...) into a seed
+ * Lets every table of a daily challenge or tournament get the same deal
+ */
+export const seedFromString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Create the generator for one round's deal
+ * Each round gets its own stream so any round can be re-dealt on its own
+ */
+export const createRoundRng = (seed: number, round: number): Rng => {
+  return createRng(Math.imul(seed ^ round, 2654435761) ^ round);
+};
@@ -0,0 +1,164 @@
+import { CardTimeoutPolicy, PigScheme, RowTimeoutPolicy, RuleSet } from '../types';
+
+export interface PigSchemeDefinition {
+  name: string;
+  description: string;
+  pigValue: (cardNumber: number) => number;
+}
+
+// Special cards that have -11 pig value (good for players!)
+const SPECIAL_DOUBLES = [11, 22, 33, 44, 55, 66, 77, 88, 99];
+
+/**
+ * Pig value schemes a lobby can choose from
+ */
+export const PIG_SCHEMES: Record<PigScheme, PigSchemeDefinition> = {
+  /**
+   * Modified from 6 Nimmt! rules:
+   * - Cards 11, 22, 33, 44, 55, 66, 77, 88, 99 = -11 pigs (beneficial!)
+   * - Cards ending in 5 = 2 pigs
+   * - Cards ending in 0 = 3 pigs
+   * - Other cards = 1 pig
+   */
+  sixty_six: {
+    name: '66 Pigs',
+    description: 'Doubles (11, 22, 33...) are worth -11 pigs',
+    pigValue: (cardNumber) => {
+      if (SPECIAL_DOUBLES.includes(cardNumber)) {
+        return -11;
+      }
+      if (cardNumber % 10 === 5) {
+        return 2;
+      }
+      if (cardNumber % 10 === 0) {
+        return 3;
+      }
+      return 1;
+    },
+  },
+  /**
+   * Original 6 Nimmt! bullheads:
+   * - 55 = 7 pigs
+   * - Other multiples of 11 = 5 pigs
+   * - Multiples of 10 = 3 pigs
+   * - Other multiples of 5 = 2 pigs
+   * - Other cards = 1 pig
+   */
+  classic: {
+    name: 'Classic',
+    description: 'Original 6 Nimmt! scoring, 55 is worth 7 pigs',
+    pigValue: (cardNumber) => {
+      if (cardNumber === 55) {
+        return 7;
+      }
+      if (cardNumber % 11 === 0) {
+        return 5;
+      }
+      if (cardNumber % 10 === 0) {
+        return 3;
+      }
+      if (cardNumber % 5 === 0) {
+        return 2;
+      }
+      return 1;
+    },
+  },
+};
+
+/**
+ * Standard 66 Pigs rules: 104 cards, 10 per hand, 4 rows of 5, first to 66 loses
+ */
+export const DEFAULT_RULES: RuleSet = {
+  targetScore: 66,
+  handSize: 10,
+  rowCount: 4,
+  maxRowLength: 5,
+  deckSize: 104,
+  pigScheme: 'sixty_six',
+  turnTimer: {
+    selectionSeconds: 60,
+    rowSelectionSeconds: 30,
+    revealSeconds: 5,
+    cardPolicy: 'lowest_card',
+    rowPolicy: 'cheapest_row',
+  },
+};
+
+const CARD_TIMEOUT_POLICIES: CardTimeoutPolicy[] = ['lowest_card', 'random_card'];
+const ROW_TIMEOUT_POLICIES: RowTimeoutPolicy[] = ['cheapest_row', 'random_row'];
+
+/**
+ * Fill in any rules missing from a stored rule set with the defaults, as start_game
+ * does before checking them
+ * Lobbies created before rule sets existed have none at all
+ */
+export const mergeDefaultRules = (rules?: Partial<RuleSet> | null): RuleSet => {
+  return {
+    ...DEFAULT_RULES,
+    ...rules,
+    turnTimer: { ...DEFAULT_RULES.turnTimer, ...rules?.turnTimer },
+  };
+};
+
+/**
+ * Fill in a stored rule set for showing it, with the defaults standing in for anything
+ * missing or unknown
+ * The host writes the lobby's rules directly, so they can name a pig scheme or timeout
+ * policy this app doesn't know; start_game refuses those, but screens must not crash on them.
+ */
+export const withDefaultRules = (rules?: Partial<RuleSet> | null): RuleSet => {
+  const merged = mergeDefaultRules(rules);
+  const { cardPolicy, rowPolicy } = merged.turnTimer;
+  const defaults = DEFAULT_RULES.turnTimer;
+
+  return {
+    ...merged,
+    pigScheme: Object.hasOwn(PIG_SCHEMES, merged.pigScheme)
+      ? merged.pigScheme
+      : DEFAULT_RULES.pigScheme,
+    turnTimer: {
+      ...merged.turnTimer,
+      cardPolicy: CARD_TIMEOUT_POLICIES.includes(cardPolicy) ? cardPolicy : defaults.cardPolicy,
+      rowPolicy: ROW_TIMEOUT_POLICIES.includes(rowPolicy) ? rowPolicy : defaults.rowPolicy,
+    },
+  };
+};
+
+// Upper bounds for the whole-number rules (the lower bounds are 1 for counts, 0 for timers)
+const MAX_RULE_COUNT = 10000;
+const MAX_TIMER_SECONDS = 3600;
+
+/**
+ * Refuse a rule set no game can be played with: a count that isn't a whole number in
+ * range, an unknown pig scheme or an unknown timeout policy
+ * Rule sets come from the lobby row, which the host writes directly, so start_game
+ * makes the same checks on the server (see _lobby_rules in supabase-schema.sql).
+ */
+export const assertValidRules = (rules: RuleSet): void => {
+  const { turnTimer } = rules;
+  const wholeNumbers: [string, number, number, number][] = [
+    ['targetScore', rules.targetScore, 1, MAX_RULE_COUNT],
+    ['handSize', rules.handSize, 1, MAX_RULE_COUNT],
+    ['rowCount', rules.rowCount, 1, MAX_RULE_COUNT],
+    ['maxRowLength', rules.maxRowLength, 1, MAX_RULE_COUNT],
+    ['deckSize', rules.deckSize, 1, MAX_RULE_COUNT],
+    ['turnTimer.selectionSeconds', turnTimer.selectionSeconds, 0, MAX_TIMER_SECONDS],
+    ['turnTimer.rowSelectionSeconds', turnTimer.rowSelectionSeconds, 0, MAX_TIMER_SECONDS],
+    ['turnTimer.revealSeconds', turnTimer.revealSeconds, 0, MAX_TIMER_SECONDS],
+  ];
+
+  for (const [name, value, min, max] of wholeNumbers) {
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`Invalid rules: ${name} must be a whole number from ${min} to ${max}`);
+    }
+  }
+
+  if (!Object.hasOwn(PIG_SCHEMES, rules.pigScheme)) {
+    throw new Error(`Invalid rules: unknown pig scheme ${rules.pigScheme}`);
+  }
+
+  const { cardPolicy, rowPolicy } = turnTimer;
+  if (!CARD_TIMEOUT_POLICIES.includes(cardPolicy) || !ROW_TIMEOUT_POLICIES.includes(rowPolicy)) {
+    throw new Error(`Invalid rules: unknown timeout policy ${cardPolicy} / ${rowPolicy}`);
+  }
+};
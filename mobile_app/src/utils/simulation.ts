@@ -0,0 +1,259 @@
+import { BotDifficulty, Player, RuleSet, TurnSelections, TurnState } from '../types';
+import { initializeGame, resolveTurn } from './gameLogic';
+import { chooseBotCard, chooseBotRow } from './bots';
+import { createRng } from './random';
+
+// Stop a game that never finishes rather than loop forever
+const MAX_TURNS = 5000;
+
+export interface SimulationConfig {
+  // Strategy for each seat, in seat order
+  strategies: BotDifficulty[];
+  rules: RuleSet;
+}
+
+export interface GameRecord {
+  seed: number;
+  rounds: number;
+  finalScores: number[];
+  // Seats sharing the lowest final score
+  winners: number[];
+  // Total pigs taken by every seat, doubles included
+  pigsTaken: number;
+  // Whether the winners would differ if negative (doubles) pigs were not counted
+  decidedByDoubles: boolean;
+}
+
+export interface SeatStats {
+  seat: number;
+  strategy: BotDifficulty;
+  wins: number;
+  winRate: number;
+  averageScore: number;
+}
+
+export interface StrategyStats {
+  seats: number;
+  wins: number;
+  winRate: number;
+}
+
+export interface SimulationSummary {
+  games: number;
+  failedGames: number;
+  errors: string[];
+  averageRounds: number;
+  averagePigsPerRound: number;
+  decidedByDoublesRate: number;
+  seats: SeatStats[];
+  strategies: Partial<Record<BotDifficulty, StrategyStats>>;
+}
+
+/**
+ * Throw if the state breaks a rule the engine should always keep
+ * (missing or duplicated cards, uneven hands, overfull or unsorted rows)
+ */
+export const assertValidState = ({ gameState, players }: TurnState): void => {
+  const { rules, tableRows } = gameState;
+  const seen = new Set<number>();
+
+  const checkCard = (number: number | undefined, where: string) => {
+    if (number === undefined || number < 1 || number > rules.deckSize) {
+      throw new Error(`Invalid card ${number} in ${where} (round ${gameState.round})`);
+    }
+    if (seen.has(number)) {
+      throw new Error(`Card ${number} appears twice (round ${gameState.round})`);
+    }
+    seen.add(number);
+  };
+
+  if (tableRows.length !== rules.rowCount) {
+    throw new Error(`Expected ${rules.rowCount} rows, found ${tableRows.length}`);
+  }
+
+  tableRows.forEach((row, index) => {
+    if (row.cards.length < 1 || row.cards.length > rules.maxRowLength) {
+      throw new Error(`Row ${index + 1} has ${row.cards.length} cards`);
+    }
+    row.cards.forEach((card, position) => {
+      checkCard(card?.number, `row ${index + 1}`);
+      if (position > 0 && card.number < row.cards[position - 1].number) {
+        throw new Error(`Row ${index + 1} is out of order`);
+      }
+    });
+  });
+
+  const handSize = players[0]?.hand.length ?? 0;
+  for (const player of players) {
+    if (player.hand.length !== handSize) {
+      throw new Error(`Uneven hands in round ${gameState.round}`);
+    }
+    player.hand.forEach((card) => checkCard(card?.number, `${player.nickname}'s hand`));
+  }
+};
+
+/**
+ * Play one complete game between bots, using only the game logic
+ */
+export const simulateGame = (config: SimulationConfig, seed: number): GameRecord => {
+  const { strategies, rules } = config;
+  const rng = createRng(seed);
+  const { gameState, hands } = initializeGame(strategies.length, rules, seed);
+
+  let state: TurnState = {
+    gameState,
+    players: hands.map(
+      (hand, seat): Player => ({
+        id: `seat_${seat}`,
+        nickname: `Seat ${seat + 1} (${strategies[seat]})`,
+        score: 0,
+        hand,
+        isHost: seat === 0,
+        isReady: true,
+        selectedCard: null,
+      })
+    ),
+  };
+
+  const seatOf = (playerId: string) => state.players.findIndex((p) => p.id === playerId);
+  const doublesPigs = strategies.map(() => 0);
+  let pigsTaken = 0;
+  let turns = 0;
+
+  while (state.gameState.phase !== 'finished') {
+    if (++turns > MAX_TURNS) {
+      throw new Error(`Game did not finish after ${MAX_TURNS} turns`);
+    }
+    assertValidState(state);
+
+    const selections: TurnSelections = {};
+    state.players.forEach((player, seat) => {
+      selections[player.id] = chooseBotCard(
+        strategies[seat],
+        {
+          hand: player.hand,
+          tableRows: state.gameState.tableRows,
+          rules,
+          numPlayers: strategies.length,
+        },
+        rng
+      );
+    });
+
+    let result = resolveTurn(state, selections);
+    while (result.state.gameState.phase === 'row_selection') {
+      const pending = result.state.gameState.pendingRowSelection;
+      if (!pending) break;
+
+      const rowIndex = chooseBotRow(
+        strategies[seatOf(pending.playerId)],
+        result.state.gameState.tableRows,
+        rng
+      );
+      const resumed = resolveTurn(result.state, {}, { [pending.playerId]: rowIndex });
+      result = { state: resumed.state, events: [...result.events, ...resumed.events] };
+    }
+
+    for (const event of result.events) {
+      if (event.type !== 'row_taken') continue;
+      pigsTaken += event.pigsTaken;
+      doublesPigs[seatOf(event.playerId)] += event.cardsTaken
+        .filter((card) => card.pigs < 0)
+        .reduce((sum, card) => sum + card.pigs, 0);
+    }
+
+    state = result.state;
+  }
+
+  const finalScores = state.players.map((player) => player.score);
+  const lowestSeats = (scores: number[]) => {
+    const lowest = Math.min(...scores);
+    return scores.flatMap((score, seat) => (score === lowest ? [seat] : []));
+  };
+  const winners = lowestSeats(finalScores);
+  const winnersWithoutDoubles = lowestSeats(
+    finalScores.map((score, seat) => score - doublesPigs[seat])
+  );
+
+  return {
+    seed,
+    rounds: state.gameState.round,
+    finalScores,
+    winners,
+    pigsTaken,
+    decidedByDoubles: winners.join(',') !== winnersWithoutDoubles.join(','),
+  };
+};
+
+/**
+ * Play many games and collect aggregate statistics
+ * Each game's seed is firstSeed + its index, so any game can be replayed alone
+ * Games that break an invariant are counted and reported instead of aborting the run
+ */
+export const runSimulation = (
+  config: SimulationConfig,
+  games: number,
+  firstSeed: number
+): SimulationSummary => {
+  const { strategies } = config;
+  const records: GameRecord[] = [];
+  const errors: string[] = [];
+
+  for (let i = 0; i < games; i++) {
+    const seed = (firstSeed + i) >>> 0;
+    try {
+      records.push(simulateGame(config, seed));
+    } catch (error) {
+      errors.push(`seed ${seed}: ${(error as Error).message}`);
+    }
+  }
+
+  const played = records.length;
+  const average = (total: number, count: number) => (count > 0 ? total / count : 0);
+
+  // Ties share the win between the tied seats
+  const wins = strategies.map(() => 0);
+  const scoreTotals = strategies.map(() => 0);
+  for (const record of records) {
+    for (const seat of record.winners) {
+      wins[seat] += 1 / record.winners.length;
+    }
+    record.finalScores.forEach((score, seat) => {
+      scoreTotals[seat] += score;
+    });
+  }
+
+  const totalRounds = records.reduce((sum, record) => sum + record.rounds, 0);
+  const totalPigs = records.reduce((sum, record) => sum + record.pigsTaken, 0);
+
+  const seats: SeatStats[] = strategies.map((strategy, seat) => ({
+    seat: seat + 1,
+    strategy,
+    wins: wins[seat],
+    winRate: average(wins[seat], played),
+    averageScore: average(scoreTotals[seat], played),
+  }));
+
+  const byStrategy: Partial<Record<BotDifficulty, StrategyStats>> = {};
+  for (const { strategy, wins: seatWins } of seats) {
+    const stats = byStrategy[strategy] ?? { seats: 0, wins: 0, winRate: 0 };
+    stats.seats += 1;
+    stats.wins += seatWins;
+    stats.winRate = average(stats.wins, played * stats.seats);
+    byStrategy[strategy] = stats;
+  }
+
+  return {
+    games: played,
+    failedGames: errors.length,
+    errors,
+    averageRounds: average(totalRounds, played),
+    averagePigsPerRound: average(totalPigs, totalRounds * strategies.length),
+    decidedByDoublesRate: average(
+      records.filter((record) => record.decidedByDoubles).length,
+      played
+    ),
+    seats,
+    strategies: byStrategy,
+  };
+};
@@ -10,7 +10,16 @@ CREATE TABLE IF NOT EXISTS lobbies (
   code VARCHAR(6) UNIQUE NOT NULL,
   host_id VARCHAR(50) NOT NULL,
   status VARCHAR(20) DEFAULT 'waiting' CHECK (status IN ('waiting', 'playing', 'finished')),
+  rules JSONB,
   game_state JSONB,
+  -- Goes up by one with every game_state change (see bump_state_version)
+  state_version INTEGER NOT NULL DEFAULT 0,
+  -- Listed in the lobby browser while waiting, so anyone can join without the code
+  is_public BOOLEAN NOT NULL DEFAULT false,
+  -- Seats, counting bots (join_lobby turns players away once they are all taken)
+  max_players INTEGER NOT NULL DEFAULT 10 CHECK (max_players BETWEEN 2 AND 10),
+  -- Whether join_lobby asks for a password (the password itself is in lobby_passwords)
+  has_password BOOLEAN NOT NULL DEFAULT false,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -22,24 +31,150 @@ CREATE TABLE IF NOT EXISTS lobby_players (
   player_id VARCHAR(50) NOT NULL,
   nickname VARCHAR(15) NOT NULL,
   score INTEGER DEFAULT 0,
-  hand JSONB DEFAULT '[]'::jsonb,
-  selected_card JSONB,
+  has_selected BOOLEAN DEFAULT false,
+  row_choice INTEGER,
   is_ready BOOLEAN DEFAULT false,
+  is_bot BOOLEAN DEFAULT false,
+  bot_difficulty VARCHAR(20) CHECK (bot_difficulty IN ('random', 'greedy', 'lookahead')),
   joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
 
   -- Unique constraint to prevent duplicate players in same lobby
   UNIQUE(lobby_id, player_id)
 );
 
+-- Private hands: each row is readable only by the signed-in user who owns it
+-- (a player's own hand, plus the bots' hands for the host who plays them).
+-- Selections stay here until resolve_turn reveals them in lobbies.game_state.
+CREATE TABLE IF NOT EXISTS player_hands (
+  lobby_player_id UUID PRIMARY KEY REFERENCES lobby_players(id) ON DELETE CASCADE,
+  lobby_id UUID REFERENCES lobbies(id) ON DELETE CASCADE,
+  player_id VARCHAR(50) NOT NULL,
+  owner_id UUID DEFAULT auth.uid(),
+  hand JSONB DEFAULT '[]'::jsonb,
+  selected_card JSONB
+);
+
+-- Game seeds and start times, kept from every client until the game ends
+-- (anyone holding the seed could work out every hand)
+CREATE TABLE IF NOT EXISTS lobby_secrets (
+  lobby_id UUID PRIMARY KEY REFERENCES lobbies(id) ON DELETE CASCADE,
+  seed BIGINT NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Join passwords, salted and hashed; only the functions below read them
+CREATE TABLE IF NOT EXISTS lobby_passwords (
+  lobby_id UUID PRIMARY KEY REFERENCES lobbies(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL
+);
+
+-- Players the host has banned from a lobby (see kick_player)
+CREATE TABLE IF NOT EXISTS lobby_bans (
+  lobby_id UUID REFERENCES lobbies(id) ON DELETE CASCADE,
+  player_id VARCHAR(50) NOT NULL,
+  banned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (lobby_id, player_id)
+);
+
+-- Player IDs made up on the device before sign-in, the stand-in that replaced each in
+-- the other tables (see _hide_legacy_player_ids), and the user who took each over
+CREATE TABLE IF NOT EXISTS legacy_player_ids (
+  legacy_id VARCHAR(50) PRIMARY KEY,
+  hidden_id VARCHAR(50) UNIQUE NOT NULL,
+  user_id UUID,
+  claimed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- When each player last showed they were connected (see touch_player)
+-- Kept out of lobby_players and out of realtime, so heartbeats don't wake every client
+CREATE TABLE IF NOT EXISTS player_heartbeats (
+  lobby_id UUID REFERENCES lobbies(id) ON DELETE CASCADE,
+  player_id VARCHAR(50) NOT NULL,
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (lobby_id, player_id)
+);
+
+-- Columns added since the first release
+-- Safe to re-run: brings an existing database up to date
+ALTER TABLE lobbies ADD COLUMN IF NOT EXISTS rules JSONB;
+ALTER TABLE lobbies ADD COLUMN IF NOT EXISTS state_version INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE lobbies ADD COLUMN IF NOT EXISTS is_public BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE lobbies ADD COLUMN IF NOT EXISTS max_players INTEGER NOT NULL DEFAULT 10
+  CHECK (max_players BETWEEN 2 AND 10);
+ALTER TABLE lobbies ADD COLUMN IF NOT EXISTS has_password BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE lobby_players ADD COLUMN IF NOT EXISTS row_choice INTEGER;
+ALTER TABLE lobby_players ADD COLUMN IF NOT EXISTS is_bot BOOLEAN DEFAULT false;
+ALTER TABLE lobby_players ADD COLUMN IF NOT EXISTS bot_difficulty VARCHAR(20)
+  CHECK (bot_difficulty IN ('random', 'greedy', 'lookahead'));
+ALTER TABLE lobby_players ADD COLUMN IF NOT EXISTS has_selected BOOLEAN DEFAULT false;
+-- Hands and selections moved to player_hands
+ALTER TABLE lobby_players DROP COLUMN IF EXISTS hand;
+ALTER TABLE lobby_players DROP COLUMN IF EXISTS selected_card;
+ALTER TABLE lobby_secrets ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE
+  DEFAULT NOW();
+
 -- Create indexes for faster queries
 CREATE INDEX IF NOT EXISTS idx_lobbies_code ON lobbies(code);
 CREATE INDEX IF NOT EXISTS idx_lobbies_status ON lobbies(status);
+CREATE INDEX IF NOT EXISTS idx_lobbies_public ON lobbies(is_public, status);
 CREATE INDEX IF NOT EXISTS idx_lobby_players_lobby_id ON lobby_players(lobby_id);
 CREATE INDEX IF NOT EXISTS idx_lobby_players_player_id ON lobby_players(player_id);
+CREATE INDEX IF NOT EXISTS idx_player_hands_lobby_id ON player_hands(lobby_id);
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE lobbies ENABLE ROW LEVEL SECURITY;
 ALTER TABLE lobby_players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE player_hands ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lobby_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lobby_passwords ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lobby_bans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE legacy_player_ids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE player_heartbeats ENABLE ROW LEVEL SECURITY;
+
+-- Player identity: every device signs in anonymously and its auth.uid()
+-- is its player ID (lobbies.host_id and lobby_players.player_id)
+CREATE OR REPLACE FUNCTION _is_lobby_host(p_lobby_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM lobbies WHERE id = p_lobby_id AND host_id = auth.uid()::TEXT
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION _is_lobby_member(p_lobby_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM lobby_players WHERE lobby_id = p_lobby_id AND player_id = auth.uid()::TEXT
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION _is_player_in_lobby(p_lobby_id UUID, p_player_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM lobby_players WHERE lobby_id = p_lobby_id AND player_id = p_player_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether a game is being played in the lobby (started and not over yet)
+CREATE OR REPLACE FUNCTION _is_game_in_progress(p_lobby_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM lobbies
+     WHERE id = p_lobby_id
+       AND status = 'playing'
+       AND game_state->>'phase' IS DISTINCT FROM 'finished'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Earlier policies, replaced below
+DROP POLICY IF EXISTS "Allow public insert access to lobbies" ON lobbies;
+DROP POLICY IF EXISTS "Allow public update access to lobbies" ON lobbies;
+DROP POLICY IF EXISTS "Allow public delete access to lobbies" ON lobbies;
+DROP POLICY IF EXISTS "Allow public insert access to lobby_players" ON lobby_players;
+DROP POLICY IF EXISTS "Allow public update access to lobby_players" ON lobby_players;
+DROP POLICY IF EXISTS "Allow public delete access to lobby_players" ON lobby_players;
+DROP POLICY IF EXISTS "Members can update their lobby" ON lobbies;
+DROP POLICY IF EXISTS "Members can update lobby players" ON lobby_players;
+DROP POLICY IF EXISTS "Players can join as themselves" ON lobby_players;
 
 -- Policies for lobbies table
 -- Allow anyone to read lobbies
@@ -48,23 +183,25 @@ CREATE POLICY "Allow public read access to lobbies"
   FOR SELECT
   USING (true);
 
--- Allow anyone to insert lobbies
-CREATE POLICY "Allow public insert access to lobbies"
+-- Players create waiting lobbies they host
+CREATE POLICY "Players can create lobbies they host"
   ON lobbies
   FOR INSERT
-  WITH CHECK (true);
+  WITH CHECK (host_id = auth.uid()::TEXT AND status = 'waiting');
 
--- Allow anyone to update lobbies
-CREATE POLICY "Allow public update access to lobbies"
+-- Only the host changes a lobby's settings; its status, host and game state only change
+-- through the game functions (see the column privileges below)
+CREATE POLICY "Hosts can update their lobby"
   ON lobbies
   FOR UPDATE
-  USING (true);
+  USING (host_id = auth.uid()::TEXT)
+  WITH CHECK (_is_player_in_lobby(id, host_id));
 
--- Allow anyone to delete lobbies
-CREATE POLICY "Allow public delete access to lobbies"
+-- Only the host can delete a lobby
+CREATE POLICY "Hosts can delete their lobby"
   ON lobbies
   FOR DELETE
-  USING (true);
+  USING (host_id = auth.uid()::TEXT);
 
 -- Policies for lobby_players table
 -- Allow anyone to read lobby players
@@ -73,32 +210,80 @@ CREATE POLICY "Allow public read access to lobby_players"
   FOR SELECT
   USING (true);
 
--- Allow anyone to insert lobby players
-CREATE POLICY "Allow public insert access to lobby_players"
+-- The host takes the first seat and adds bots to a waiting lobby; everyone
+-- else joins through join_lobby, which checks the seats and password
+DROP POLICY IF EXISTS "Hosts can seat themselves and bots" ON lobby_players;
+CREATE POLICY "Hosts can seat themselves and bots"
   ON lobby_players
   FOR INSERT
-  WITH CHECK (true);
+  WITH CHECK (
+    _is_lobby_host(lobby_id)
+    AND (player_id = auth.uid()::TEXT OR is_bot)
+    AND EXISTS (SELECT 1 FROM lobbies WHERE id = lobby_id AND status = 'waiting')
+  );
 
--- Allow anyone to update lobby players
-CREATE POLICY "Allow public update access to lobby_players"
+-- Players update only their own row (and only the columns granted below)
+CREATE POLICY "Players can update themselves"
   ON lobby_players
   FOR UPDATE
-  USING (true);
+  USING (player_id = auth.uid()::TEXT);
 
--- Allow anyone to delete lobby players
-CREATE POLICY "Allow public delete access to lobby_players"
+-- Players leave as themselves; the host removes bots. Not mid-game: resolve_turn
+-- may be waiting on any seat (to choose a row), and a missing one would stall the game
+DROP POLICY IF EXISTS "Players can leave as themselves" ON lobby_players;
+CREATE POLICY "Players can leave as themselves"
   ON lobby_players
   FOR DELETE
-  USING (true);
+  USING (
+    (player_id = auth.uid()::TEXT OR (is_bot AND _is_lobby_host(lobby_id)))
+    AND NOT _is_game_in_progress(lobby_id)
+  );
+
+-- Policies for player_hands table
+-- Only the owner may read a hand; all writes go through the game functions below
+CREATE POLICY "Owners can read their hands"
+  ON player_hands
+  FOR SELECT
+  USING (owner_id = auth.uid());
+
+-- Players can see which lobbies have banned them (the lobby browser hides those);
+-- bans are only made by kick_player
+DROP POLICY IF EXISTS "Players can read their own bans" ON lobby_bans;
+CREATE POLICY "Players can read their own bans"
+  ON lobby_bans
+  FOR SELECT
+  USING (player_id = auth.uid()::TEXT);
+
+-- lobby_secrets, lobby_passwords, legacy_player_ids and player_heartbeats have no policies:
+-- only the functions below use them
+
+-- Table privileges
+-- Policies pick the rows a player may touch; these pick the columns.
+-- Scores, selections, hands and game state are left to the game functions, and so are a
+-- lobby's status and host (start_game, reset_lobby, leave_lobby and claim_host).
+REVOKE INSERT, UPDATE, DELETE ON lobbies, lobby_players, player_hands, lobby_bans
+  FROM anon, authenticated;
+REVOKE ALL ON lobby_secrets, lobby_passwords, legacy_player_ids, player_heartbeats
+  FROM anon, authenticated;
+
+GRANT INSERT (code, host_id, status, rules, is_public) ON lobbies TO authenticated;
+GRANT UPDATE (rules, is_public, max_players) ON lobbies TO authenticated;
+GRANT DELETE ON lobbies TO authenticated;
+
+GRANT INSERT (lobby_id, player_id, nickname, is_ready, is_bot, bot_difficulty)
+  ON lobby_players TO authenticated;
+GRANT UPDATE (nickname, is_ready) ON lobby_players TO authenticated;
+GRANT DELETE ON lobby_players TO authenticated;
 
 -- Enable Realtime for both tables
 -- You need to do this in the Supabase Dashboard:
 -- 1. Go to Database -> Replication
--- 2. Enable realtime for 'lobbies' and 'lobby_players' tables
+-- 2. Enable realtime for the 'lobbies', 'lobby_players' and 'player_hands' tables
 
 -- Alternatively, you can run these commands:
 ALTER PUBLICATION supabase_realtime ADD TABLE lobbies;
 ALTER PUBLICATION supabase_realtime ADD TABLE lobby_players;
+ALTER PUBLICATION supabase_realtime ADD TABLE player_hands;
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -116,6 +301,1242 @@ CREATE TRIGGER update_lobbies_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- Number every game_state change, so clients can tell a newer state from an older one
+-- and the game functions can refuse requests made against a state that has moved on
+CREATE OR REPLACE FUNCTION bump_state_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.game_state IS DISTINCT FROM OLD.game_state THEN
+    NEW.state_version = OLD.state_version + 1;
+  ELSE
+    NEW.state_version = OLD.state_version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_lobbies_state_version ON lobbies;
+CREATE TRIGGER bump_lobbies_state_version
+  BEFORE UPDATE ON lobbies
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_state_version();
+
+-- Keep every lobby within its seat limit, whoever adds the seat: join_lobby turns
+-- players away first with a friendlier error, but the host adds bots directly
+-- Locking the lobby makes concurrent inserts take the last seat one at a time
+CREATE OR REPLACE FUNCTION check_seat_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_max_players INTEGER;
+BEGIN
+  SELECT max_players INTO v_max_players FROM lobbies WHERE id = NEW.lobby_id FOR UPDATE;
+
+  IF (SELECT COUNT(*) FROM lobby_players WHERE lobby_id = NEW.lobby_id) >= v_max_players THEN
+    RAISE EXCEPTION 'This lobby is full (max % players)', v_max_players;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_lobby_seat_limit ON lobby_players;
+CREATE TRIGGER check_lobby_seat_limit
+  BEFORE INSERT ON lobby_players
+  FOR EACH ROW
+  EXECUTE FUNCTION check_seat_limit();
+
+-- The seat limit can't go below the seats already taken
+CREATE OR REPLACE FUNCTION check_max_players()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_seats INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_seats FROM lobby_players WHERE lobby_id = NEW.id;
+
+  IF NEW.max_players < v_seats THEN
+    RAISE EXCEPTION 'The lobby already has % players (max % asked for)', v_seats, NEW.max_players;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_lobby_max_players ON lobbies;
+CREATE TRIGGER check_lobby_max_players
+  BEFORE UPDATE OF max_players ON lobbies
+  FOR EACH ROW
+  WHEN (NEW.max_players < OLD.max_players)
+  EXECUTE FUNCTION check_max_players();
+
+-- Give every new lobby player an empty private hand, owned by whoever added them
+-- (players join themselves; bots are added by the host)
+CREATE OR REPLACE FUNCTION create_player_hand()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO player_hands (lobby_player_id, lobby_id, player_id, owner_id)
+  VALUES (NEW.id, NEW.lobby_id, NEW.player_id, auth.uid());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS create_lobby_player_hand ON lobby_players;
+CREATE TRIGGER create_lobby_player_hand
+  AFTER INSERT ON lobby_players
+  FOR EACH ROW
+  EXECUTE FUNCTION create_player_hand();
+
+-- Hand the bots' hands over to the new host, who plays them from now on
+CREATE OR REPLACE FUNCTION transfer_bot_hands()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE player_hands
+     SET owner_id = (
+           SELECT owner_id FROM player_hands
+            WHERE lobby_id = NEW.id AND player_id = NEW.host_id
+         )
+   WHERE lobby_id = NEW.id
+     AND lobby_player_id IN (SELECT id FROM lobby_players WHERE lobby_id = NEW.id AND is_bot);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS transfer_lobby_bot_hands ON lobbies;
+CREATE TRIGGER transfer_lobby_bot_hands
+  AFTER UPDATE OF host_id ON lobbies
+  FOR EACH ROW
+  WHEN (OLD.host_id IS DISTINCT FROM NEW.host_id)
+  EXECUTE FUNCTION transfer_bot_hands();
+
+-- Rename a player everywhere a player ID is kept: their hands (handing them to p_owner_id
+-- when given), their seats, the lobbies they host and the game states they appear in
+-- Hands first, so the bot hands follow when the host changes
+CREATE OR REPLACE FUNCTION _move_player_id(p_from TEXT, p_to TEXT, p_owner_id UUID)
+RETURNS void AS $$
+BEGIN
+  UPDATE player_hands
+     SET player_id = p_to,
+         owner_id = COALESCE(p_owner_id, owner_id)
+   WHERE player_id = p_from;
+
+  UPDATE lobby_players SET player_id = p_to WHERE player_id = p_from;
+
+  UPDATE lobbies
+     SET host_id = CASE WHEN host_id = p_from THEN p_to ELSE host_id END,
+         game_state = replace(
+           game_state::TEXT,
+           to_jsonb(p_from)::TEXT,
+           to_jsonb(p_to)::TEXT
+         )::JSONB
+   WHERE host_id = p_from
+      OR id IN (SELECT lobby_id FROM lobby_players WHERE player_id = p_to);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Swap every pre-sign-in player ID (player_xxxx) still in the tables for a stand-in
+-- (legacy_<uuid>) that gives nothing away
+-- Anyone could read the old IDs, so knowing one proves nothing; once they are hidden,
+-- only the device that made an ID still has it, and claim_player_id can take it as proof
+CREATE OR REPLACE FUNCTION _hide_legacy_player_ids()
+RETURNS void AS $$
+DECLARE
+  v_legacy RECORD;
+BEGIN
+  INSERT INTO legacy_player_ids (legacy_id, hidden_id)
+  SELECT old_id, 'legacy_' || uuid_generate_v4()
+    FROM (SELECT player_id AS old_id FROM lobby_players UNION SELECT host_id FROM lobbies) AS ids
+   WHERE old_id LIKE 'player\_%'
+  ON CONFLICT (legacy_id) DO NOTHING;
+
+  FOR v_legacy IN
+    SELECT legacy_id, hidden_id FROM legacy_player_ids
+     WHERE legacy_id IN (SELECT player_id FROM lobby_players UNION SELECT host_id FROM lobbies)
+  LOOP
+    PERFORM _move_player_id(v_legacy.legacy_id, v_legacy.hidden_id, NULL);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+SELECT _hide_legacy_player_ids();
+
+-- Move a device's pre-sign-in player ID over to its signed-in user, so lobbies it hosts
+-- or plays in follow it after an upgrade
+-- The old ID is the proof: it has been hidden from everyone but the device that made it.
+-- Each one can only be claimed once; an ID with nothing left under it moves nothing.
+CREATE OR REPLACE FUNCTION claim_player_id(p_legacy_id TEXT)
+RETURNS void AS $$
+DECLARE
+  v_legacy legacy_player_ids%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in before claiming a player ID';
+  END IF;
+
+  IF p_legacy_id NOT LIKE 'player\_%' THEN
+    RAISE EXCEPTION 'Not an old player ID: %', p_legacy_id;
+  END IF;
+
+  SELECT * INTO v_legacy FROM legacy_player_ids WHERE legacy_id = p_legacy_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_legacy.user_id IS DISTINCT FROM auth.uid() AND v_legacy.user_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Player ID % has already been claimed', p_legacy_id;
+  END IF;
+
+  UPDATE legacy_player_ids
+     SET user_id = auth.uid(),
+         claimed_at = COALESCE(claimed_at, NOW())
+   WHERE legacy_id = p_legacy_id;
+
+  PERFORM _move_player_id(v_legacy.hidden_id, auth.uid()::TEXT, auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================
+-- Game engine: dealing and turn resolution run on the server
+-- The host calls start_game; players only submit their card (submit_selection)
+-- or row (choose_row); resolve_turn reveals, places, scores and deals new rounds.
+-- Each function runs as one transaction: a failure part-way changes nothing.
+-- It mirrors initializeGame/resolveTurn/startNewRound in src/utils/gameLogic.ts and
+-- shuffles with the same seeded generator as src/utils/random.ts,
+-- so a game's seed (published when it ends) re-deals it exactly on either side.
+-- npm run test:sql plays the same games on both and checks they agree move by move.
+-- ============================================================
+
+-- 32-bit multiply on unsigned values, like JavaScript's Math.imul
+CREATE OR REPLACE FUNCTION _imul32(a BIGINT, b BIGINT)
+RETURNS BIGINT AS $$
+  SELECT (
+    ((((a >> 16) * (b & 65535) + (a & 65535) * (b >> 16)) & 65535) << 16)
+    + (a & 65535) * (b & 65535)
+  ) & 4294967295;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Pig value of a card under a pig scheme (see PIG_SCHEMES in src/utils/rules.ts)
+CREATE OR REPLACE FUNCTION _pig_value(p_number INTEGER, p_scheme TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN p_scheme = 'classic' THEN
+      CASE
+        WHEN p_number = 55 THEN 7
+        WHEN p_number % 11 = 0 THEN 5
+        WHEN p_number % 10 = 0 THEN 3
+        WHEN p_number % 5 = 0 THEN 2
+        ELSE 1
+      END
+    ELSE
+      CASE
+        WHEN p_number IN (11, 22, 33, 44, 55, 66, 77, 88, 99) THEN -11
+        WHEN p_number % 10 = 5 THEN 2
+        WHEN p_number % 10 = 0 THEN 3
+        ELSE 1
+      END
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Shuffle cards exactly like shuffleDeck(cards, createRoundRng(seed, round))
+CREATE OR REPLACE FUNCTION _shuffle_cards(p_cards JSONB, p_seed BIGINT, p_round INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+  v_cards JSONB[];
+  v_state BIGINT;
+  v_t BIGINT;
+  v_j INTEGER;
+  v_swap JSONB;
+BEGIN
+  SELECT COALESCE(array_agg(card ORDER BY position), '{}')
+    INTO v_cards
+    FROM jsonb_array_elements(p_cards) WITH ORDINALITY AS e(card, position);
+
+  v_state := _imul32((p_seed # p_round) & 4294967295, 2654435761) # p_round;
+
+  FOR i IN REVERSE COALESCE(array_length(v_cards, 1), 0) - 1 .. 1 LOOP
+    -- mulberry32
+    v_state := (v_state + 1831565813) & 4294967295;
+    v_t := _imul32(v_state # (v_state >> 15), v_state | 1);
+    v_t := v_t # ((v_t + _imul32(v_t # (v_t >> 7), v_t | 61)) & 4294967295);
+    v_t := v_t # (v_t >> 14);
+
+    v_j := (v_t * (i + 1)) >> 32;
+    v_swap := v_cards[i + 1];
+    v_cards[i + 1] := v_cards[v_j + 1];
+    v_cards[v_j + 1] := v_swap;
+  END LOOP;
+
+  RETURN to_jsonb(v_cards);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Total pigs in a row
+CREATE OR REPLACE FUNCTION _row_pigs(p_row JSONB)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM((card->>'pigs')::INTEGER), 0)::INTEGER
+    FROM jsonb_array_elements(p_row->'cards') AS card;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Row a card goes on (closest lower row end), or -1 if it is lower than every row
+CREATE OR REPLACE FUNCTION _find_row(p_number INTEGER, p_rows JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_best INTEGER := -1;
+  v_best_difference INTEGER;
+  v_last INTEGER;
+BEGIN
+  FOR i IN 0 .. jsonb_array_length(p_rows) - 1 LOOP
+    v_last := (p_rows->i->'cards'->-1->>'number')::INTEGER;
+    IF p_number > v_last AND (v_best = -1 OR p_number - v_last < v_best_difference) THEN
+      v_best := i;
+      v_best_difference := p_number - v_last;
+    END IF;
+  END LOOP;
+  RETURN v_best;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Row with the fewest pigs (the first one on a tie)
+CREATE OR REPLACE FUNCTION _cheapest_row(p_rows JSONB)
+RETURNS INTEGER AS $$
+  SELECT (position - 1)::INTEGER
+    FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS e(row_data, position)
+    ORDER BY _row_pigs(row_data), position
+    LIMIT 1;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Deadline for the decision a game is waiting on, as an ISO string like toISOString()
+CREATE OR REPLACE FUNCTION _turn_deadline(p_phase TEXT, p_rules JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_seconds NUMERIC := CASE p_phase
+    WHEN 'selecting' THEN (p_rules->'turnTimer'->>'selectionSeconds')::NUMERIC
+    WHEN 'revealing' THEN (p_rules->'turnTimer'->>'revealSeconds')::NUMERIC
+    WHEN 'row_selection' THEN (p_rules->'turnTimer'->>'rowSelectionSeconds')::NUMERIC
+  END;
+BEGIN
+  IF COALESCE(v_seconds, 0) <= 0 THEN
+    RETURN 'null'::JSONB;
+  END IF;
+  RETURN to_jsonb(to_char(
+    (NOW() + v_seconds * INTERVAL '1 second') AT TIME ZONE 'UTC',
+    'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'
+  ));
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Deal p_hand_size cards from the top of p_deck to each player, in join order
+CREATE OR REPLACE FUNCTION _deal_hands(p_lobby_id UUID, p_deck JSONB, p_hand_size INTEGER)
+RETURNS void AS $$
+DECLARE
+  v_seat INTEGER := 0;
+  v_player RECORD;
+BEGIN
+  FOR v_player IN
+    SELECT id FROM lobby_players WHERE lobby_id = p_lobby_id ORDER BY joined_at
+  LOOP
+    UPDATE player_hands
+       SET hand = (
+             SELECT jsonb_agg(card ORDER BY (card->>'number')::INTEGER)
+               FROM jsonb_array_elements(p_deck) WITH ORDINALITY AS e(card, position)
+              WHERE position > v_seat * p_hand_size
+                AND position <= (v_seat + 1) * p_hand_size
+           ),
+           selected_card = NULL
+     WHERE lobby_player_id = v_player.id;
+    v_seat := v_seat + 1;
+  END LOOP;
+
+  UPDATE lobby_players
+     SET has_selected = false,
+         row_choice = NULL
+   WHERE lobby_id = p_lobby_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Deal the next round from every card not on the table (see startNewRound)
+-- Hands shrink when there are not enough cards for rules.handSize each
+CREATE OR REPLACE FUNCTION _deal_round(p_lobby_id UUID, p_state JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_rules JSONB := p_state->'rules';
+  v_round INTEGER := (p_state->>'round')::INTEGER + 1;
+  v_deck JSONB;
+  v_num_players INTEGER;
+  v_hand_size INTEGER;
+BEGIN
+  SELECT COALESCE(jsonb_agg(
+           jsonb_build_object('number', n, 'pigs', _pig_value(n, v_rules->>'pigScheme'))
+           ORDER BY n
+         ), '[]'::JSONB)
+    INTO v_deck
+    FROM generate_series(1, (v_rules->>'deckSize')::INTEGER) AS n
+    WHERE n NOT IN (
+      SELECT (card->>'number')::INTEGER
+        FROM jsonb_array_elements(p_state->'tableRows') AS row_data,
+             jsonb_array_elements(row_data->'cards') AS card
+    );
+
+  v_deck := _shuffle_cards(
+    v_deck,
+    (SELECT seed FROM lobby_secrets WHERE lobby_id = p_lobby_id),
+    v_round
+  );
+
+  SELECT COUNT(*) INTO v_num_players FROM lobby_players WHERE lobby_id = p_lobby_id;
+  v_hand_size := LEAST(
+    (v_rules->>'handSize')::INTEGER,
+    jsonb_array_length(v_deck) / GREATEST(v_num_players, 1)
+  );
+
+  IF v_num_players < 1 OR v_hand_size < 1 THEN
+    RAISE EXCEPTION 'Not enough cards to deal to % players', v_num_players;
+  END IF;
+
+  PERFORM _deal_hands(p_lobby_id, v_deck, v_hand_size);
+
+  RETURN p_state || jsonb_build_object(
+    'round', v_round,
+    'handSize', v_hand_size,
+    'currentPlayerIndex', 0
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Whether the signed-in user may play for this player (their own seat, or a bot they host)
+CREATE OR REPLACE FUNCTION _owns_player(p_lobby_id UUID, p_player_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM player_hands
+     WHERE lobby_id = p_lobby_id
+       AND player_id = p_player_id
+       AND owner_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Rules used where a lobby has none stored (DEFAULT_RULES in src/utils/rules.ts)
+CREATE OR REPLACE FUNCTION _default_rules()
+RETURNS JSONB AS $$
+  SELECT '{
+    "targetScore": 66,
+    "handSize": 10,
+    "rowCount": 4,
+    "maxRowLength": 5,
+    "deckSize": 104,
+    "pigScheme": "sixty_six",
+    "turnTimer": {
+      "selectionSeconds": 60,
+      "rowSelectionSeconds": 30,
+      "revealSeconds": 5,
+      "cardPolicy": "lowest_card",
+      "rowPolicy": "cheapest_row"
+    }
+  }'::JSONB;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A lobby's rules with the defaults filled in, turnTimer setting by setting, refusing
+-- rules no game can be played with (the same checks as assertValidRules in src/utils/rules.ts)
+CREATE OR REPLACE FUNCTION _lobby_rules(p_rules JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_rules JSONB := COALESCE(p_rules, '{}'::JSONB);
+  v_bounds RECORD;
+  v_value JSONB;
+  v_valid BOOLEAN;
+BEGIN
+  IF jsonb_typeof(v_rules) <> 'object'
+     OR jsonb_typeof(COALESCE(v_rules->'turnTimer', '{}'::JSONB)) <> 'object' THEN
+    RAISE EXCEPTION 'Invalid rules: % is not a rule set', v_rules;
+  END IF;
+
+  v_rules := _default_rules() || v_rules || jsonb_build_object(
+    'turnTimer', (_default_rules()->'turnTimer') || COALESCE(v_rules->'turnTimer', '{}'::JSONB)
+  );
+
+  FOR v_bounds IN
+    SELECT * FROM (VALUES
+      (ARRAY['targetScore'], 1, 10000),
+      (ARRAY['handSize'], 1, 10000),
+      (ARRAY['rowCount'], 1, 10000),
+      (ARRAY['maxRowLength'], 1, 10000),
+      (ARRAY['deckSize'], 1, 10000),
+      (ARRAY['turnTimer', 'selectionSeconds'], 0, 3600),
+      (ARRAY['turnTimer', 'rowSelectionSeconds'], 0, 3600),
+      (ARRAY['turnTimer', 'revealSeconds'], 0, 3600)
+    ) AS b(path, min_value, max_value)
+  LOOP
+    v_value := v_rules #> v_bounds.path;
+    v_valid := CASE WHEN jsonb_typeof(v_value) = 'number'
+      THEN v_value::TEXT::NUMERIC BETWEEN v_bounds.min_value AND v_bounds.max_value
+        AND v_value::TEXT::NUMERIC = trunc(v_value::TEXT::NUMERIC)
+      ELSE false
+    END;
+
+    IF NOT v_valid THEN
+      RAISE EXCEPTION 'Invalid rules: % must be a whole number from % to %, not %',
+        array_to_string(v_bounds.path, '.'), v_bounds.min_value, v_bounds.max_value, v_value;
+    END IF;
+  END LOOP;
+
+  -- PIG_SCHEMES, CardTimeoutPolicy and RowTimeoutPolicy
+  IF COALESCE(v_rules->>'pigScheme', '') NOT IN ('sixty_six', 'classic') THEN
+    RAISE EXCEPTION 'Invalid rules: unknown pig scheme %', v_rules->'pigScheme';
+  END IF;
+
+  IF COALESCE(v_rules->'turnTimer'->>'cardPolicy', '') NOT IN ('lowest_card', 'random_card')
+     OR COALESCE(v_rules->'turnTimer'->>'rowPolicy', '') NOT IN ('cheapest_row', 'random_row')
+  THEN
+    RAISE EXCEPTION 'Invalid rules: unknown timeout policy in %', v_rules->'turnTimer';
+  END IF;
+
+  RETURN v_rules;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Start (or restart) a lobby's game: deal the rows and every hand (see initializeGame)
+-- Only the host may start; the seed stays in lobby_secrets until the game ends
+CREATE OR REPLACE FUNCTION start_game(p_lobby_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_lobby lobbies%ROWTYPE;
+  v_rules JSONB;
+  v_num_players INTEGER;
+  v_seed BIGINT := floor(random() * 4294967296)::BIGINT;
+  v_deck JSONB;
+  v_rows JSONB;
+  v_hand_size INTEGER;
+  v_state JSONB;
+BEGIN
+  SELECT * INTO v_lobby FROM lobbies WHERE id = p_lobby_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT _owns_player(p_lobby_id, v_lobby.host_id) THEN
+    RAISE EXCEPTION 'Only the host can start the game';
+  END IF;
+
+  -- A repeated request (a double tap, a retry) must not re-deal a running game
+  IF v_lobby.status = 'playing' AND v_lobby.game_state->>'phase' IS DISTINCT FROM 'finished' THEN
+    RAISE EXCEPTION 'The game has already started';
+  END IF;
+
+  v_rules := _lobby_rules(v_lobby.rules);
+  SELECT COUNT(*) INTO v_num_players FROM lobby_players WHERE lobby_id = p_lobby_id;
+
+  IF v_num_players < 2 OR v_num_players > 10 THEN
+    RAISE EXCEPTION 'A game needs 2 to 10 players, not %', v_num_players;
+  END IF;
+
+  -- Every later round must be dealable too, even with every row full (see assertGameDealable)
+  IF LEAST(
+       (v_rules->>'handSize')::INTEGER,
+       ((v_rules->>'deckSize')::INTEGER
+         - (v_rules->>'rowCount')::INTEGER * (v_rules->>'maxRowLength')::INTEGER) / v_num_players
+     ) < 1 THEN
+    RAISE EXCEPTION 'Not enough cards to deal to % players', v_num_players;
+  END IF;
+
+  SELECT jsonb_agg(
+           jsonb_build_object('number', n, 'pigs', _pig_value(n, v_rules->>'pigScheme'))
+           ORDER BY n
+         )
+    INTO v_deck
+    FROM generate_series(1, (v_rules->>'deckSize')::INTEGER) AS n;
+
+  v_deck := _shuffle_cards(v_deck, v_seed, 1);
+
+  -- One card per row, rows sorted by their starting card
+  SELECT jsonb_agg(jsonb_build_object('cards', jsonb_build_array(card))
+                   ORDER BY (card->>'number')::INTEGER)
+    INTO v_rows
+    FROM jsonb_array_elements(v_deck) WITH ORDINALITY AS e(card, position)
+   WHERE position <= (v_rules->>'rowCount')::INTEGER;
+
+  SELECT COALESCE(jsonb_agg(card ORDER BY position), '[]'::JSONB)
+    INTO v_deck
+    FROM jsonb_array_elements(v_deck) WITH ORDINALITY AS e(card, position)
+   WHERE position > (v_rules->>'rowCount')::INTEGER;
+
+  v_hand_size := LEAST((v_rules->>'handSize')::INTEGER, jsonb_array_length(v_deck) / v_num_players);
+
+  INSERT INTO lobby_secrets (lobby_id, seed)
+  VALUES (p_lobby_id, v_seed)
+  ON CONFLICT (lobby_id) DO UPDATE SET seed = EXCLUDED.seed, started_at = NOW();
+
+  PERFORM _deal_hands(p_lobby_id, v_deck, v_hand_size);
+  UPDATE lobby_players SET score = 0 WHERE lobby_id = p_lobby_id;
+
+  v_state := jsonb_build_object(
+    'phase', 'selecting',
+    'round', 1,
+    'seed', NULL,
+    'rules', v_rules,
+    'handSize', v_hand_size,
+    'turnDeadline', _turn_deadline('selecting', v_rules),
+    'tableRows', v_rows,
+    'currentPlayerIndex', 0,
+    'revealedCards', '[]'::JSONB,
+    'pendingPlacements', '[]'::JSONB,
+    'lastAction', NULL
+  );
+
+  UPDATE lobbies
+     SET status = 'playing',
+         game_state = v_state
+   WHERE id = p_lobby_id;
+
+  RETURN v_state;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Move a game on as far as it can go right now
+-- - selecting: reveals once everyone has chosen (or plays for them when time is up)
+-- - revealing: places the cards once the reveal countdown is over
+-- - row_selection: carries on once the row is chosen (or picks one when time is up)
+-- Safe to call from any client at any time; calls with nothing to do change nothing.
+-- With p_expected_version, a call made against an older state is also a no-op, so however
+-- many clients ask at once, each step of a turn is applied exactly once
+DROP FUNCTION IF EXISTS resolve_turn(UUID);
+CREATE OR REPLACE FUNCTION resolve_turn(p_lobby_id UUID, p_expected_version INTEGER DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  v_state JSONB;
+  v_version INTEGER;
+  v_rules JSONB;
+  v_phase TEXT;
+  v_timed_out BOOLEAN;
+  v_placements JSONB;
+  v_rows JSONB;
+  v_placement JSONB;
+  v_player_id TEXT;
+  v_card JSONB;
+  v_row_index INTEGER;
+  v_pigs INTEGER;
+  v_pending RECORD;
+BEGIN
+  SELECT game_state, state_version INTO v_state, v_version
+    FROM lobbies WHERE id = p_lobby_id FOR UPDATE;
+
+  IF v_state IS NULL THEN
+    RAISE EXCEPTION 'Lobby % has no game in progress', p_lobby_id;
+  END IF;
+
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_version THEN
+    RETURN v_state;
+  END IF;
+
+  v_rules := v_state->'rules';
+  v_phase := v_state->>'phase';
+  v_timed_out := jsonb_typeof(v_state->'turnDeadline') = 'string'
+    AND NOW() >= (v_state->>'turnDeadline')::TIMESTAMPTZ;
+
+  IF v_phase = 'selecting' THEN
+    IF v_timed_out THEN
+      UPDATE player_hands
+         SET selected_card = (
+               SELECT card FROM jsonb_array_elements(hand) AS card
+                ORDER BY CASE WHEN v_rules->'turnTimer'->>'cardPolicy' = 'random_card'
+                              THEN random() ELSE (card->>'number')::NUMERIC END
+                LIMIT 1
+             )
+       WHERE lobby_id = p_lobby_id
+         AND selected_card IS NULL
+         AND jsonb_array_length(hand) > 0;
+
+      UPDATE lobby_players SET has_selected = true WHERE lobby_id = p_lobby_id;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM player_hands WHERE lobby_id = p_lobby_id AND selected_card IS NULL
+    ) THEN
+      RETURN v_state;
+    END IF;
+
+    -- Everyone has chosen: reveal the cards, lowest first
+    v_state := v_state || jsonb_build_object(
+      'phase', 'revealing',
+      'revealedCards', (
+        SELECT jsonb_agg(
+                 jsonb_build_object(
+                   'playerId', lp.player_id,
+                   'playerName', lp.nickname,
+                   'card', ph.selected_card
+                 )
+                 ORDER BY (ph.selected_card->>'number')::INTEGER
+               )
+          FROM lobby_players lp
+          JOIN player_hands ph ON ph.lobby_player_id = lp.id
+         WHERE lp.lobby_id = p_lobby_id
+      ),
+      'turnDeadline', _turn_deadline('revealing', v_rules)
+    );
+
+    UPDATE lobbies SET game_state = v_state WHERE id = p_lobby_id;
+
+    IF jsonb_typeof(v_state->'turnDeadline') = 'string' THEN
+      RETURN v_state;
+    END IF;
+    v_phase := 'revealing';
+    v_timed_out := true;
+  END IF;
+
+  IF v_phase = 'revealing' THEN
+    IF NOT v_timed_out THEN
+      RETURN v_state;
+    END IF;
+
+    -- Start placing: take the revealed cards out of everyone's hands
+    SELECT COALESCE(jsonb_agg(
+             jsonb_build_object('playerId', revealed->>'playerId', 'card', revealed->'card')
+             ORDER BY position
+           ), '[]'::JSONB)
+      INTO v_placements
+      FROM jsonb_array_elements(v_state->'revealedCards') WITH ORDINALITY AS e(revealed, position);
+
+    UPDATE player_hands
+       SET hand = COALESCE((
+             SELECT jsonb_agg(card ORDER BY position)
+               FROM jsonb_array_elements(hand) WITH ORDINALITY AS e(card, position)
+              WHERE (card->>'number')::INTEGER
+                    IS DISTINCT FROM (selected_card->>'number')::INTEGER
+           ), '[]'::JSONB),
+           selected_card = NULL
+     WHERE lobby_id = p_lobby_id;
+
+    UPDATE lobby_players
+       SET has_selected = false,
+           row_choice = NULL
+     WHERE lobby_id = p_lobby_id;
+
+  ELSIF v_phase = 'row_selection' THEN
+    SELECT id, row_choice INTO v_pending
+      FROM lobby_players
+     WHERE lobby_id = p_lobby_id
+       AND player_id = v_state->'pendingRowSelection'->>'playerId';
+
+    IF v_pending.row_choice IS NULL THEN
+      IF NOT v_timed_out THEN
+        RETURN v_state;
+      END IF;
+
+      UPDATE lobby_players
+         SET row_choice = CASE
+               WHEN v_rules->'turnTimer'->>'rowPolicy' = 'random_row'
+                 THEN floor(random() * jsonb_array_length(v_state->'tableRows'))::INTEGER
+               ELSE _cheapest_row(v_state->'tableRows')
+             END
+       WHERE id = v_pending.id;
+    END IF;
+
+    v_placements := v_state->'pendingPlacements';
+
+  ELSE
+    RETURN v_state;
+  END IF;
+
+  -- Place the cards lowest first
+  v_rows := v_state->'tableRows';
+
+  FOR i IN 0 .. jsonb_array_length(v_placements) - 1 LOOP
+    v_placement := v_placements->i;
+    v_player_id := v_placement->>'playerId';
+    v_card := v_placement->'card';
+    v_row_index := _find_row((v_card->>'number')::INTEGER, v_rows);
+
+    IF v_row_index = -1 THEN
+      SELECT row_choice INTO v_row_index
+        FROM lobby_players
+       WHERE lobby_id = p_lobby_id AND player_id = v_player_id;
+
+      IF v_row_index IS NULL THEN
+        -- Wait for the player to pick the row they will take
+        v_state := v_state || jsonb_build_object(
+          'phase', 'row_selection',
+          'tableRows', v_rows,
+          'pendingPlacements', (
+            SELECT jsonb_agg(placement ORDER BY position)
+              FROM jsonb_array_elements(v_placements) WITH ORDINALITY AS e(placement, position)
+             WHERE position > i
+          ),
+          'pendingRowSelection', jsonb_build_object(
+            'playerId', v_player_id,
+            'playerName', (
+              SELECT nickname FROM lobby_players
+               WHERE lobby_id = p_lobby_id AND player_id = v_player_id
+            ),
+            'card', v_card
+          ),
+          'turnDeadline', _turn_deadline('row_selection', v_rules)
+        );
+        UPDATE lobbies SET game_state = v_state WHERE id = p_lobby_id;
+        RETURN v_state;
+      END IF;
+
+      IF v_row_index < 0 OR v_row_index >= jsonb_array_length(v_rows) THEN
+        RAISE EXCEPTION 'Invalid row choice % for card %', v_row_index, v_card->>'number';
+      END IF;
+
+      v_pigs := _row_pigs(v_rows->v_row_index);
+      v_rows := jsonb_set(v_rows, ARRAY[v_row_index::TEXT, 'cards'], jsonb_build_array(v_card));
+    ELSIF jsonb_array_length(v_rows->v_row_index->'cards') >= (v_rules->>'maxRowLength')::INTEGER THEN
+      -- Row is full: the player takes it
+      v_pigs := _row_pigs(v_rows->v_row_index);
+      v_rows := jsonb_set(v_rows, ARRAY[v_row_index::TEXT, 'cards'], jsonb_build_array(v_card));
+    ELSE
+      v_pigs := 0;
+      v_rows := jsonb_set(
+        v_rows,
+        ARRAY[v_row_index::TEXT, 'cards'],
+        (v_rows->v_row_index->'cards') || jsonb_build_array(v_card)
+      );
+    END IF;
+
+    IF v_pigs <> 0 THEN
+      UPDATE lobby_players
+         SET score = score + v_pigs
+       WHERE lobby_id = p_lobby_id AND player_id = v_player_id;
+    END IF;
+  END LOOP;
+
+  UPDATE lobby_players SET row_choice = NULL WHERE lobby_id = p_lobby_id;
+
+  v_state := v_state || jsonb_build_object(
+    'phase', 'selecting',
+    'tableRows', v_rows,
+    'revealedCards', '[]'::JSONB,
+    'pendingPlacements', '[]'::JSONB,
+    'pendingRowSelection', NULL
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM lobby_players
+     WHERE lobby_id = p_lobby_id AND score >= (v_rules->>'targetScore')::INTEGER
+  ) THEN
+    -- The hands no longer matter, so the seed can be published for replays
+    v_state := v_state || jsonb_build_object(
+      'phase', 'finished',
+      'turnDeadline', NULL,
+      'seed', (SELECT seed FROM lobby_secrets WHERE lobby_id = p_lobby_id)
+    );
+  ELSE
+    IF NOT EXISTS (
+      SELECT 1 FROM player_hands
+       WHERE lobby_id = p_lobby_id AND jsonb_array_length(hand) > 0
+    ) THEN
+      -- Start a new round - KEEP THE EXISTING TABLE ROWS
+      v_state := _deal_round(p_lobby_id, v_state);
+    END IF;
+    v_state := v_state || jsonb_build_object('turnDeadline', _turn_deadline('selecting', v_rules));
+  END IF;
+
+  UPDATE lobbies SET game_state = v_state WHERE id = p_lobby_id;
+  RETURN v_state;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Lock a lobby's game state for a change, failing if it is no longer the expected version
+-- (compare-and-swap: the client sends the state_version it last saw)
+CREATE OR REPLACE FUNCTION _lock_game_state(p_lobby_id UUID, p_expected_version INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+  v_state JSONB;
+  v_version INTEGER;
+BEGIN
+  SELECT game_state, state_version INTO v_state, v_version
+    FROM lobbies WHERE id = p_lobby_id FOR UPDATE;
+
+  IF p_expected_version IS NOT NULL AND p_expected_version <> v_version THEN
+    RAISE EXCEPTION 'The game has moved on (version % is now %)', p_expected_version, v_version
+      USING ERRCODE = '40001';
+  END IF;
+
+  RETURN v_state;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Choose (or with NULL, take back) a player's card for this turn
+-- Only the player (or the host, for a bot) may choose, and only a card in their hand;
+-- the hand's copy is stored so pig values can't be forged.
+-- With p_expected_version, a pick made against an older state (e.g. for a turn that
+-- has already been revealed) fails instead of landing on the next turn
+DROP FUNCTION IF EXISTS submit_selection(UUID, TEXT, JSONB);
+CREATE OR REPLACE FUNCTION submit_selection(
+  p_lobby_id UUID,
+  p_player_id TEXT,
+  p_card JSONB,
+  p_expected_version INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_state JSONB;
+  v_card JSONB;
+BEGIN
+  v_state := _lock_game_state(p_lobby_id, p_expected_version);
+
+  IF v_state->>'phase' IS DISTINCT FROM 'selecting' THEN
+    RAISE EXCEPTION 'Cards can only be chosen while players are selecting';
+  END IF;
+
+  IF NOT _owns_player(p_lobby_id, p_player_id) THEN
+    RAISE EXCEPTION 'You cannot play for player %', p_player_id;
+  END IF;
+
+  IF p_card IS NOT NULL AND jsonb_typeof(p_card) <> 'null' THEN
+    SELECT card INTO v_card
+      FROM player_hands, jsonb_array_elements(hand) AS card
+     WHERE lobby_id = p_lobby_id
+       AND player_id = p_player_id
+       AND (card->>'number')::INTEGER = (p_card->>'number')::INTEGER;
+
+    IF v_card IS NULL THEN
+      RAISE EXCEPTION 'Card % is not in this player''s hand', p_card->>'number';
+    END IF;
+  END IF;
+
+  UPDATE player_hands
+     SET selected_card = v_card
+   WHERE lobby_id = p_lobby_id AND player_id = p_player_id;
+
+  UPDATE lobby_players
+     SET has_selected = v_card IS NOT NULL
+   WHERE lobby_id = p_lobby_id AND player_id = p_player_id;
+
+  RETURN resolve_turn(p_lobby_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Choose the row to take when a player's card is lower than every row
+DROP FUNCTION IF EXISTS choose_row(UUID, TEXT, INTEGER);
+CREATE OR REPLACE FUNCTION choose_row(
+  p_lobby_id UUID,
+  p_player_id TEXT,
+  p_row_index INTEGER,
+  p_expected_version INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_state JSONB;
+BEGIN
+  v_state := _lock_game_state(p_lobby_id, p_expected_version);
+
+  IF v_state->>'phase' IS DISTINCT FROM 'row_selection'
+     OR v_state->'pendingRowSelection'->>'playerId' IS DISTINCT FROM p_player_id THEN
+    RAISE EXCEPTION 'It is not this player''s turn to choose a row';
+  END IF;
+
+  IF NOT _owns_player(p_lobby_id, p_player_id) THEN
+    RAISE EXCEPTION 'You cannot play for player %', p_player_id;
+  END IF;
+
+  IF p_row_index < 0 OR p_row_index >= jsonb_array_length(v_state->'tableRows') THEN
+    RAISE EXCEPTION 'Invalid row %', p_row_index;
+  END IF;
+
+  UPDATE lobby_players
+     SET row_choice = p_row_index
+   WHERE lobby_id = p_lobby_id AND player_id = p_player_id;
+
+  RETURN resolve_turn(p_lobby_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Send a lobby back to the waiting room after a game
+-- Any player may once the game is over; the host may at any time
+CREATE OR REPLACE FUNCTION reset_lobby(p_lobby_id UUID)
+RETURNS void AS $$
+DECLARE
+  v_lobby lobbies%ROWTYPE;
+BEGIN
+  SELECT * INTO v_lobby FROM lobbies WHERE id = p_lobby_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT _is_lobby_member(p_lobby_id) THEN
+    RAISE EXCEPTION 'Only players in this lobby can reset it';
+  END IF;
+
+  IF v_lobby.host_id <> auth.uid()::TEXT
+     AND v_lobby.game_state->>'phase' IS DISTINCT FROM 'finished' THEN
+    RAISE EXCEPTION 'Only the host can stop a game in progress';
+  END IF;
+
+  UPDATE lobbies
+     SET status = 'waiting',
+         game_state = NULL
+   WHERE id = p_lobby_id;
+
+  UPDATE lobby_players
+     SET score = 0,
+         has_selected = false,
+         row_choice = NULL,
+         is_ready = is_bot OR player_id = v_lobby.host_id
+   WHERE lobby_id = p_lobby_id;
+
+  UPDATE player_hands
+     SET hand = '[]'::JSONB,
+         selected_card = NULL
+   WHERE lobby_id = p_lobby_id;
+
+  DELETE FROM lobby_secrets WHERE lobby_id = p_lobby_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Leave a lobby: remove the player, hand the lobby to the longest-waiting other
+-- player if they were the host, and delete it once only bots are left
+-- Refused while a game is being played (players who drop out are played for by the
+-- turn timer); the host can stop the game with reset_lobby first
+CREATE OR REPLACE FUNCTION leave_lobby(p_lobby_id UUID)
+RETURNS void AS $$
+DECLARE
+  v_lobby lobbies%ROWTYPE;
+  v_new_host TEXT;
+BEGIN
+  SELECT * INTO v_lobby FROM lobbies WHERE id = p_lobby_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF _is_game_in_progress(p_lobby_id) THEN
+    RAISE EXCEPTION 'Players cannot leave a game in progress';
+  END IF;
+
+  DELETE FROM lobby_players
+   WHERE lobby_id = p_lobby_id AND player_id = auth.uid()::TEXT;
+
+  SELECT player_id INTO v_new_host
+    FROM lobby_players
+   WHERE lobby_id = p_lobby_id AND NOT is_bot
+   ORDER BY joined_at
+   LIMIT 1;
+
+  IF v_new_host IS NULL THEN
+    DELETE FROM lobbies WHERE id = p_lobby_id;
+  ELSIF v_lobby.host_id = auth.uid()::TEXT THEN
+    UPDATE lobbies SET host_id = v_new_host WHERE id = p_lobby_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Join passwords are hashed with the lobby ID as salt
+CREATE OR REPLACE FUNCTION _password_hash(p_lobby_id UUID, p_password TEXT)
+RETURNS TEXT AS $$
+  SELECT encode(sha256(convert_to(p_lobby_id::TEXT || ':' || p_password, 'UTF8')), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Open a lobby with the signed-in player as its host and first player, in one step
+-- so no lobby is ever left without its host seated. Returns the new lobby
+CREATE OR REPLACE FUNCTION create_lobby(
+  p_code TEXT,
+  p_nickname TEXT,
+  p_rules JSONB DEFAULT NULL,
+  p_is_public BOOLEAN DEFAULT false
+)
+RETURNS lobbies AS $$
+DECLARE
+  v_lobby lobbies%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in before creating a lobby';
+  END IF;
+
+  INSERT INTO lobbies (code, host_id, status, rules, is_public)
+  VALUES (p_code, auth.uid()::TEXT, 'waiting', p_rules, p_is_public)
+  RETURNING * INTO v_lobby;
+
+  INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready)
+  VALUES (v_lobby.id, auth.uid()::TEXT, p_nickname, true);
+
+  RETURN v_lobby;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Join a waiting lobby as the signed-in player, if a seat is free and the
+-- password (when the host set one) is right. Joining again does nothing.
+CREATE OR REPLACE FUNCTION join_lobby(
+  p_lobby_id UUID,
+  p_nickname TEXT,
+  p_password TEXT DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_lobby lobbies%ROWTYPE;
+BEGIN
+  -- Locking the lobby makes concurrent joins take the last seat one at a time
+  SELECT * INTO v_lobby FROM lobbies WHERE id = p_lobby_id FOR UPDATE;
+
+  IF NOT FOUND OR v_lobby.status <> 'waiting' THEN
+    RAISE EXCEPTION 'This lobby is not taking new players';
+  END IF;
+
+  IF _is_lobby_member(p_lobby_id) THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM lobby_bans WHERE lobby_id = p_lobby_id AND player_id = auth.uid()::TEXT
+  ) THEN
+    RAISE EXCEPTION 'You have been banned from this lobby' USING ERRCODE = '28000';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM lobby_players WHERE lobby_id = p_lobby_id) >= v_lobby.max_players THEN
+    RAISE EXCEPTION 'This lobby is full (max % players)', v_lobby.max_players;
+  END IF;
+
+  IF v_lobby.has_password AND NOT EXISTS (
+    SELECT 1 FROM lobby_passwords
+     WHERE lobby_id = p_lobby_id
+       AND password_hash = _password_hash(p_lobby_id, COALESCE(p_password, ''))
+  ) THEN
+    RAISE EXCEPTION 'Wrong password for this lobby' USING ERRCODE = '28P01';
+  END IF;
+
+  INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready)
+  VALUES (p_lobby_id, auth.uid()::TEXT, p_nickname, false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Set the password players need to join, or remove it with NULL or ''
+-- Host only; the lobby row just shows whether there is one
+CREATE OR REPLACE FUNCTION set_join_password(p_lobby_id UUID, p_password TEXT)
+RETURNS void AS $$
+BEGIN
+  IF NOT _is_lobby_host(p_lobby_id) THEN
+    RAISE EXCEPTION 'Only the host can change the join password';
+  END IF;
+
+  IF COALESCE(p_password, '') = '' THEN
+    DELETE FROM lobby_passwords WHERE lobby_id = p_lobby_id;
+  ELSE
+    INSERT INTO lobby_passwords (lobby_id, password_hash)
+    VALUES (p_lobby_id, _password_hash(p_lobby_id, p_password))
+    ON CONFLICT (lobby_id) DO UPDATE SET password_hash = EXCLUDED.password_hash;
+  END IF;
+
+  UPDATE lobbies
+     SET has_password = COALESCE(p_password, '') <> ''
+   WHERE id = p_lobby_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Remove a player (or bot) from a waiting lobby; with p_ban they can't rejoin it
+-- Host only. The removed player's lobby screen sees their row go and leaves.
+CREATE OR REPLACE FUNCTION kick_player(
+  p_lobby_id UUID,
+  p_player_id TEXT,
+  p_ban BOOLEAN DEFAULT false
+)
+RETURNS void AS $$
+DECLARE
+  v_lobby lobbies%ROWTYPE;
+BEGIN
+  SELECT * INTO v_lobby FROM lobbies WHERE id = p_lobby_id FOR UPDATE;
+
+  IF NOT FOUND OR v_lobby.host_id <> auth.uid()::TEXT THEN
+    RAISE EXCEPTION 'Only the host can remove players';
+  END IF;
+
+  IF p_player_id = v_lobby.host_id THEN
+    RAISE EXCEPTION 'The host cannot remove themselves';
+  END IF;
+
+  IF v_lobby.status <> 'waiting' THEN
+    RAISE EXCEPTION 'Players can only be removed before the game starts';
+  END IF;
+
+  DELETE FROM lobby_players WHERE lobby_id = p_lobby_id AND player_id = p_player_id;
+  DELETE FROM player_heartbeats WHERE lobby_id = p_lobby_id AND player_id = p_player_id;
+
+  IF p_ban THEN
+    INSERT INTO lobby_bans (lobby_id, player_id)
+    VALUES (p_lobby_id, p_player_id)
+    ON CONFLICT (lobby_id, player_id) DO NOTHING;
+  END IF;
+
+  -- Realtime can't filter delete events by lobby, so also touch the lobby row:
+  -- every screen subscribed to it refetches and the removed player finds their seat gone
+  UPDATE lobbies SET updated_at = NOW() WHERE id = p_lobby_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record that the signed-in player is still connected to a lobby
+-- Game screens call this every few seconds; claim_host relies on it
+CREATE OR REPLACE FUNCTION touch_player(p_lobby_id UUID)
+RETURNS void AS $$
+BEGIN
+  IF NOT _is_player_in_lobby(p_lobby_id, auth.uid()::TEXT) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO player_heartbeats (lobby_id, player_id)
+  VALUES (p_lobby_id, auth.uid()::TEXT)
+  ON CONFLICT (lobby_id, player_id) DO UPDATE SET last_seen_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Take over hosting from a host who has not been seen for 20 seconds
+-- A host who has sent no heartbeat yet counts as seen when they joined or the game
+-- started, whichever is later, so a claim can't beat their first one.
+-- Only the longest-waiting player still connected may claim, so when several
+-- players notice at once exactly one becomes host. The bots' hands follow them
+-- (see transfer_bot_hands), and as the game state lives in the lobby, the new
+-- host carries on from wherever the game was, mid-reveal or not.
+-- Returns whether the caller is now the host
+CREATE OR REPLACE FUNCTION claim_host(p_lobby_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_lobby lobbies%ROWTYPE;
+  v_me TEXT := auth.uid()::TEXT;
+  v_host_seen TIMESTAMP WITH TIME ZONE;
+  v_successor TEXT;
+BEGIN
+  SELECT * INTO v_lobby FROM lobbies WHERE id = p_lobby_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lobby not found';
+  END IF;
+
+  IF v_lobby.host_id = v_me THEN
+    RETURN true;
+  END IF;
+
+  SELECT COALESCE(hb.last_seen_at, GREATEST(lp.joined_at, ls.started_at)) INTO v_host_seen
+    FROM lobby_players lp
+    LEFT JOIN player_heartbeats hb
+      ON hb.lobby_id = lp.lobby_id AND hb.player_id = lp.player_id
+    LEFT JOIN lobby_secrets ls ON ls.lobby_id = lp.lobby_id
+   WHERE lp.lobby_id = p_lobby_id AND lp.player_id = v_lobby.host_id;
+
+  IF v_host_seen > NOW() - INTERVAL '20 seconds' THEN
+    RETURN false;
+  END IF;
+
+  SELECT lp.player_id INTO v_successor
+    FROM lobby_players lp
+    JOIN player_heartbeats hb
+      ON hb.lobby_id = lp.lobby_id AND hb.player_id = lp.player_id
+   WHERE lp.lobby_id = p_lobby_id
+     AND NOT lp.is_bot
+     AND lp.player_id <> v_lobby.host_id
+     AND hb.last_seen_at > NOW() - INTERVAL '20 seconds'
+   ORDER BY lp.joined_at
+   LIMIT 1;
+
+  IF v_successor IS DISTINCT FROM v_me THEN
+    RETURN false;
+  END IF;
+
+  UPDATE lobbies SET host_id = v_me WHERE id = p_lobby_id;
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Helpers that write game data are only for the functions above, never for clients
+REVOKE EXECUTE ON FUNCTION _deal_hands(UUID, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION _deal_round(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION _lock_game_state(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION _move_player_id(TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION _hide_legacy_player_ids() FROM PUBLIC, anon, authenticated;
+
+-- Current time on the database server
+-- Clients sync to it so every device agrees on turn deadlines
+CREATE OR REPLACE FUNCTION server_time()
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT NOW();
+$$ LANGUAGE sql STABLE;
+
 -- Clean up old lobbies (optional - run periodically)
 -- DELETE FROM lobbies WHERE created_at < NOW() - INTERVAL '24 hours';
 
@@ -0,0 +1,98 @@
+-- A whole game through the game functions, and leaving while it is played
+-- Alice hosts with a bot, Bob joins; cards are placed as soon as they are revealed.
+
+SELECT tests.sign_in('alice');
+INSERT INTO lobbies (code, host_id, rules)
+VALUES ('GAME01', tests.user_id('alice'), '{"turnTimer": {"revealSeconds": 0}}');
+INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready)
+VALUES (tests.lobby_id('GAME01'), tests.user_id('alice'), 'Alice', true);
+INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready, is_bot, bot_difficulty)
+VALUES (tests.lobby_id('GAME01'), 'bot_1', 'Botty', true, true, 'greedy');
+
+SELECT tests.sign_in('bob');
+SELECT join_lobby(tests.lobby_id('GAME01'), 'Bob');
+
+SELECT tests.sign_in('alice');
+SELECT start_game(tests.lobby_id('GAME01'));
+
+-- Nobody leaves mid-game: resolve_turn could be waiting on any seat to choose a row
+SELECT tests.sign_in('bob');
+DO $$
+BEGIN
+  PERFORM tests.throws(
+    $sql$ SELECT leave_lobby(tests.lobby_id('GAME01')) $sql$,
+    'P0001',
+    'a player cannot leave a game in progress'
+  );
+  ASSERT tests.row_count($sql$
+    DELETE FROM lobby_players WHERE player_id = tests.user_id('bob')::TEXT
+  $sql$) = 0, 'a player cannot give up their seat in a game in progress';
+END $$;
+
+SELECT tests.sign_in('alice');
+DO $$
+BEGIN
+  ASSERT tests.row_count($sql$
+    DELETE FROM lobby_players WHERE player_id = 'bot_1'
+  $sql$) = 0, 'the host cannot remove a bot in a game in progress';
+END $$;
+
+-- Play to the end: everyone plays their lowest card, and whoever must take a row takes
+-- the first one. Each player acts as themselves; Alice also plays for the bot.
+DO $$
+DECLARE
+  v_lobby_id UUID := tests.lobby_id('GAME01');
+  v_state JSONB;
+  v_name TEXT;
+  v_hand RECORD;
+  v_pending TEXT;
+  v_steps INTEGER := 0;
+BEGIN
+  LOOP
+    SELECT game_state INTO v_state FROM lobbies WHERE id = v_lobby_id;
+    EXIT WHEN v_state->>'phase' = 'finished';
+
+    v_steps := v_steps + 1;
+    ASSERT v_steps < 1000, 'the game finishes';
+
+    IF v_state->>'phase' = 'selecting' THEN
+      FOREACH v_name IN ARRAY ARRAY['alice', 'bob'] LOOP
+        PERFORM tests.sign_in(v_name);
+        FOR v_hand IN
+          SELECT player_id, hand FROM player_hands
+           WHERE lobby_id = v_lobby_id AND selected_card IS NULL
+        LOOP
+          PERFORM submit_selection(
+            v_lobby_id,
+            v_hand.player_id,
+            (SELECT card FROM jsonb_array_elements(v_hand.hand) AS card
+              ORDER BY (card->>'number')::INTEGER LIMIT 1)
+          );
+        END LOOP;
+      END LOOP;
+    ELSIF v_state->>'phase' = 'row_selection' THEN
+      v_pending := v_state->'pendingRowSelection'->>'playerId';
+      PERFORM tests.sign_in(
+        CASE WHEN v_pending = tests.user_id('bob')::TEXT THEN 'bob' ELSE 'alice' END
+      );
+      PERFORM choose_row(v_lobby_id, v_pending, 0);
+    ELSE
+      RAISE EXCEPTION 'Unexpected phase % with no reveal countdown', v_state->>'phase';
+    END IF;
+  END LOOP;
+
+  ASSERT v_state->>'seed' IS NOT NULL, 'the seed is published once the game is over';
+  ASSERT (SELECT MAX(score) FROM lobby_players WHERE lobby_id = v_lobby_id) >= 66,
+    'someone reached the target score';
+END $$;
+
+-- Once the game is over, players may leave again
+SELECT tests.sign_in('bob');
+SELECT leave_lobby(tests.lobby_id('GAME01'));
+
+DO $$
+BEGIN
+  ASSERT NOT EXISTS (
+    SELECT 1 FROM lobby_players WHERE player_id = tests.user_id('bob')::TEXT
+  ), 'a player can leave a finished game';
+END $$;
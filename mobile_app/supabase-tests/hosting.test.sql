@@ -0,0 +1,43 @@
+-- Taking over from a quiet host (claim_host)
+-- Alice hosts and Bob joins; Alice has been in the lobby a while, and has sent no
+-- heartbeat yet when the game starts.
+
+SELECT tests.sign_in('alice');
+INSERT INTO lobbies (code, host_id) VALUES ('HOST01', tests.user_id('alice'));
+INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready)
+VALUES (tests.lobby_id('HOST01'), tests.user_id('alice'), 'Alice', true);
+
+SELECT tests.sign_in('bob');
+SELECT join_lobby(tests.lobby_id('HOST01'), 'Bob');
+
+SELECT tests.sign_in('alice');
+SELECT start_game(tests.lobby_id('HOST01'));
+
+SELECT tests.sign_in(NULL);
+UPDATE lobby_players SET joined_at = NOW() - INTERVAL '10 minutes'
+ WHERE player_id = tests.user_id('alice')::TEXT;
+
+-- A host with no heartbeat yet counts as seen when the game started
+SELECT tests.sign_in('bob');
+SELECT touch_player(tests.lobby_id('HOST01'));
+DO $$
+BEGIN
+  ASSERT NOT claim_host(tests.lobby_id('HOST01')),
+    'nobody takes over from a host who has not had time to send a heartbeat';
+  ASSERT (SELECT host_id FROM lobbies WHERE code = 'HOST01') = tests.user_id('alice')::TEXT,
+    'the host stays the host';
+END $$;
+
+-- Once the game has gone on 20 seconds without one, the host counts as gone
+SELECT tests.sign_in(NULL);
+UPDATE lobby_secrets SET started_at = NOW() - INTERVAL '1 minute'
+ WHERE lobby_id = tests.lobby_id('HOST01');
+
+SELECT tests.sign_in('bob');
+DO $$
+BEGIN
+  ASSERT claim_host(tests.lobby_id('HOST01')),
+    'the longest-waiting connected player takes over from a host never seen';
+  ASSERT (SELECT host_id FROM lobbies WHERE code = 'HOST01') = tests.user_id('bob')::TEXT,
+    'the claim makes them host';
+END $$;
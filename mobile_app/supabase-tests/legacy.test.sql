@@ -0,0 +1,82 @@
+-- Taking over a player ID made up on a device before sign-in (player_xxxx)
+-- A lobby from before the upgrade: player_old1 hosts it and plays with player_old2.
+
+SELECT tests.sign_in(NULL);
+INSERT INTO lobbies (code, host_id, game_state) VALUES (
+  'OLD001', 'player_old1', '{"phase": "finished", "playerIds": ["player_old1", "player_old2"]}'
+);
+INSERT INTO lobby_players (lobby_id, player_id, nickname)
+VALUES (tests.lobby_id('OLD001'), 'player_old1', 'Old One'),
+       (tests.lobby_id('OLD001'), 'player_old2', 'Old Two');
+
+-- What the schema does on an upgrade
+SELECT _hide_legacy_player_ids();
+
+-- The old IDs were readable by anyone; now nobody can read them, or what replaced them
+SELECT tests.sign_in('mallory');
+DO $$
+BEGIN
+  ASSERT NOT EXISTS (SELECT 1 FROM lobby_players WHERE player_id LIKE 'player\_%'),
+    'no seat shows an old ID';
+  ASSERT NOT EXISTS (
+    SELECT 1 FROM lobbies WHERE host_id LIKE 'player\_%' OR game_state::TEXT LIKE '%player\_%'
+  ), 'no lobby shows an old ID';
+  ASSERT (SELECT COUNT(*) FROM lobby_players WHERE lobby_id = tests.lobby_id('OLD001')) = 2,
+    'the old seats are still there';
+  PERFORM tests.throws(
+    'SELECT * FROM legacy_player_ids', '42501', 'the old IDs are hidden from clients'
+  );
+  PERFORM tests.throws($sql$
+    SELECT _move_player_id(
+      (SELECT host_id FROM lobbies WHERE code = 'OLD001'),
+      tests.user_id('mallory')::TEXT,
+      tests.user_id('mallory')
+    )
+  $sql$, '42501', 'clients cannot move player IDs themselves');
+END $$;
+
+-- Claiming an ID that was never in use moves nothing
+SELECT claim_player_id('player_guessed');
+
+DO $$
+BEGIN
+  ASSERT NOT EXISTS (
+    SELECT 1 FROM lobby_players WHERE player_id = tests.user_id('mallory')::TEXT
+  ), 'a made-up old ID takes over no seat';
+END $$;
+
+-- The device that made player_old1 still has it, and takes over its seat and its lobby
+SELECT tests.sign_in('alice');
+SELECT claim_player_id('player_old1');
+SELECT claim_player_id('player_old1');
+
+DO $$
+DECLARE
+  v_alice TEXT := tests.user_id('alice')::TEXT;
+BEGIN
+  ASSERT (SELECT host_id FROM lobbies WHERE code = 'OLD001') = v_alice,
+    'the old host hosts their lobby again';
+  ASSERT EXISTS (SELECT 1 FROM lobby_players WHERE player_id = v_alice),
+    'the old host has their seat back';
+  ASSERT (SELECT game_state->'playerIds'->>0 FROM lobbies WHERE code = 'OLD001') = v_alice,
+    'the game state follows the new ID';
+  ASSERT (SELECT COUNT(*) FROM player_hands) = 1, 'the old host reads their own hand';
+END $$;
+
+-- Each old ID goes to one user only
+SELECT tests.sign_in('mallory');
+DO $$
+BEGIN
+  PERFORM tests.throws(
+    $sql$ SELECT claim_player_id('player_old1') $sql$,
+    'P0001',
+    'an old ID that was taken over cannot be claimed again',
+    '%already been claimed'
+  );
+  PERFORM tests.throws(
+    $sql$ SELECT claim_player_id('bot_1') $sql$,
+    'P0001',
+    'only old player IDs can be claimed',
+    'Not an old player ID%'
+  );
+END $$;
@@ -0,0 +1,178 @@
+-- Row level security and column privileges on lobbies, lobby_players and player_hands
+-- Alice hosts a lobby with a bot, Bob has joined it, Carol is a stranger.
+
+SELECT tests.sign_in('alice');
+INSERT INTO lobbies (code, host_id) VALUES ('ALICE1', tests.user_id('alice'));
+INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready)
+VALUES (tests.lobby_id('ALICE1'), tests.user_id('alice'), 'Alice', true);
+INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready, is_bot, bot_difficulty)
+VALUES (tests.lobby_id('ALICE1'), 'bot_1', 'Botty', true, true, 'greedy');
+
+SELECT tests.sign_in('bob');
+SELECT join_lobby(tests.lobby_id('ALICE1'), 'Bob');
+
+-- Only the host updates or deletes a lobby
+SELECT tests.sign_in('bob');
+DO $$
+BEGIN
+  ASSERT tests.row_count($sql$
+    UPDATE lobbies SET is_public = true WHERE code = 'ALICE1'
+  $sql$) = 0, 'a player who is not the host cannot update the lobby';
+  ASSERT tests.row_count($sql$
+    DELETE FROM lobbies WHERE code = 'ALICE1'
+  $sql$) = 0, 'a player who is not the host cannot delete the lobby';
+  PERFORM tests.throws($sql$
+    INSERT INTO lobbies (code, host_id) VALUES ('BOB001', tests.user_id('alice')::TEXT)
+  $sql$, '42501', 'a lobby can only be created with yourself as host');
+END $$;
+
+SELECT tests.sign_in('alice');
+DO $$
+BEGIN
+  ASSERT tests.row_count($sql$
+    UPDATE lobbies SET is_public = true, max_players = 6 WHERE code = 'ALICE1'
+  $sql$) = 1, 'the host can change the lobby settings';
+  -- Status and host change only through the game functions, so a game can't be put back
+  -- to waiting (letting a new player in mid-game) or handed to a bot or to nobody
+  PERFORM tests.throws($sql$
+    UPDATE lobbies SET status = 'playing' WHERE code = 'ALICE1'
+  $sql$, '42501', 'the host cannot set the lobby status directly');
+  PERFORM tests.throws($sql$
+    UPDATE lobbies SET host_id = 'bot_1' WHERE code = 'ALICE1'
+  $sql$, '42501', 'the host cannot hand the lobby over directly');
+END $$;
+
+-- Only the host adds bots; everyone else takes a seat through join_lobby
+SELECT tests.sign_in('bob');
+DO $$
+BEGIN
+  PERFORM tests.throws($sql$
+    INSERT INTO lobby_players (lobby_id, player_id, nickname, is_bot, bot_difficulty)
+    VALUES (tests.lobby_id('ALICE1'), 'bot_2', 'Sneaky', true, 'random')
+  $sql$, '42501', 'a player who is not the host cannot add a bot');
+END $$;
+
+SELECT tests.sign_in('carol');
+DO $$
+BEGIN
+  PERFORM tests.throws($sql$
+    INSERT INTO lobby_players (lobby_id, player_id, nickname)
+    VALUES (tests.lobby_id('ALICE1'), tests.user_id('carol')::TEXT, 'Carol')
+  $sql$, '42501', 'players cannot seat themselves past join_lobby');
+  PERFORM tests.throws($sql$
+    INSERT INTO lobby_players (lobby_id, player_id, nickname)
+    VALUES (tests.lobby_id('ALICE1'), tests.user_id('dave')::TEXT, 'Dave')
+  $sql$, '42501', 'players cannot seat someone else');
+END $$;
+
+-- Players change and remove only their own seat; the host removes bots
+SELECT tests.sign_in('bob');
+DO $$
+BEGIN
+  ASSERT tests.row_count($sql$
+    UPDATE lobby_players SET nickname = 'Bobby', is_ready = true
+     WHERE player_id = tests.user_id('bob')::TEXT
+  $sql$) = 1, 'a player can rename themselves and get ready';
+  ASSERT tests.row_count($sql$
+    UPDATE lobby_players SET nickname = 'Loser' WHERE player_id = tests.user_id('alice')::TEXT
+  $sql$) = 0, 'a player cannot rename someone else';
+  ASSERT tests.row_count($sql$
+    DELETE FROM lobby_players WHERE player_id IN (tests.user_id('alice')::TEXT, 'bot_1')
+  $sql$) = 0, 'a player cannot remove other players or bots';
+END $$;
+
+SELECT tests.sign_in('alice');
+DO $$
+BEGIN
+  ASSERT tests.row_count($sql$
+    DELETE FROM lobby_players WHERE player_id = tests.user_id('bob')::TEXT
+  $sql$) = 0, 'the host removes players through kick_player, not directly';
+END $$;
+
+-- Scores, selections, hands and the game state are written by the game functions only
+SELECT tests.sign_in('alice');
+DO $$
+BEGIN
+  PERFORM tests.throws($sql$
+    UPDATE lobbies SET game_state = '{"phase": "finished"}' WHERE code = 'ALICE1'
+  $sql$, '42501', 'the host cannot write the game state');
+  PERFORM tests.throws($sql$
+    UPDATE lobbies SET state_version = 99 WHERE code = 'ALICE1'
+  $sql$, '42501', 'the host cannot write the state version');
+  PERFORM tests.throws($sql$
+    UPDATE lobbies SET has_password = false WHERE code = 'ALICE1'
+  $sql$, '42501', 'the host sets a password through set_join_password only');
+  PERFORM tests.throws($sql$
+    INSERT INTO lobbies (code, host_id, has_password)
+    VALUES ('ALICE2', tests.user_id('alice')::TEXT, true)
+  $sql$, '42501', 'a new lobby cannot claim to have a password');
+  PERFORM tests.throws($sql$
+    UPDATE lobby_players SET score = 0 WHERE player_id = tests.user_id('alice')::TEXT
+  $sql$, '42501', 'players cannot write their score');
+  PERFORM tests.throws($sql$
+    UPDATE lobby_players SET has_selected = true WHERE player_id = tests.user_id('alice')::TEXT
+  $sql$, '42501', 'players cannot mark themselves as having picked');
+  PERFORM tests.throws($sql$
+    UPDATE player_hands SET hand = '[]' WHERE player_id = tests.user_id('alice')::TEXT
+  $sql$, '42501', 'players cannot change their hand');
+  PERFORM tests.throws($sql$
+    INSERT INTO lobby_bans (lobby_id, player_id)
+    VALUES (tests.lobby_id('ALICE1'), tests.user_id('carol')::TEXT)
+  $sql$, '42501', 'bans are only made by kick_player');
+  PERFORM tests.throws(
+    'SELECT * FROM lobby_secrets', '42501', 'the game seed is hidden from clients'
+  );
+  PERFORM tests.throws(
+    'SELECT * FROM lobby_passwords', '42501', 'password hashes are hidden from clients'
+  );
+END $$;
+
+-- Hands are read by their owner only: each player their own, the host also the bots'
+SELECT tests.sign_in('alice');
+SELECT start_game(tests.lobby_id('ALICE1'));
+
+DO $$
+BEGIN
+  ASSERT (SELECT array_agg(player_id::TEXT ORDER BY player_id) FROM player_hands)
+    = ARRAY[tests.user_id('alice')::TEXT, 'bot_1'], 'the host reads their own and the bots'' hands';
+  ASSERT (SELECT bool_and(jsonb_array_length(hand) = 10) FROM player_hands),
+    'the hands the host reads are dealt';
+END $$;
+
+SELECT tests.sign_in('bob');
+DO $$
+BEGIN
+  ASSERT (SELECT array_agg(player_id::TEXT) FROM player_hands) = ARRAY[tests.user_id('bob')::TEXT],
+    'a player reads only their own hand';
+END $$;
+
+SELECT tests.sign_in('carol');
+DO $$
+BEGIN
+  ASSERT NOT EXISTS (SELECT 1 FROM player_hands), 'a stranger reads no hands';
+  ASSERT (SELECT COUNT(*) FROM lobby_players WHERE lobby_id = tests.lobby_id('ALICE1'))
+    = 3, 'anyone can see who is in a lobby';
+END $$;
+
+-- A player can leave by deleting their own seat, and the host can delete the lobby
+SELECT tests.sign_in('alice');
+SELECT reset_lobby(tests.lobby_id('ALICE1'));
+
+SELECT tests.sign_in('bob');
+DO $$
+BEGIN
+  ASSERT tests.row_count($sql$
+    DELETE FROM lobby_players WHERE player_id = tests.user_id('bob')::TEXT
+  $sql$) = 1, 'a player can give up their own seat';
+END $$;
+
+SELECT tests.sign_in('alice');
+DO $$
+BEGIN
+  ASSERT tests.row_count($sql$
+    DELETE FROM lobby_players WHERE player_id = 'bot_1'
+  $sql$) = 1, 'the host can remove a bot';
+  ASSERT tests.row_count($sql$
+    DELETE FROM lobbies WHERE code = 'ALICE1'
+  $sql$) = 1, 'the host can delete the lobby';
+END $$;
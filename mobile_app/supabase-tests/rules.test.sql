@@ -0,0 +1,74 @@
+-- start_game fills in missing rules and refuses rule sets no game can be played with
+-- The host writes lobbies.rules directly, so the server can't trust what it finds there.
+
+SELECT tests.sign_in('alice');
+INSERT INTO lobbies (code, host_id) VALUES ('RULES1', tests.user_id('alice'));
+INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready)
+VALUES (tests.lobby_id('RULES1'), tests.user_id('alice'), 'Alice', true);
+INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready, is_bot, bot_difficulty)
+VALUES (tests.lobby_id('RULES1'), 'bot_1', 'Botty', true, true, 'greedy');
+
+-- Each of these leaves the lobby waiting, with a clear error
+DO $$
+DECLARE
+  v_rules TEXT;
+BEGIN
+  FOREACH v_rules IN ARRAY ARRAY[
+    '{"rowCount": 0}',
+    '{"maxRowLength": 0}',
+    '{"targetScore": -5}',
+    '{"handSize": 2.5}',
+    '{"handSize": "ten"}',
+    '{"deckSize": 99999999999}',
+    '{"pigScheme": "golden"}',
+    '{"turnTimer": {"selectionSeconds": -1}}',
+    '{"turnTimer": {"cardPolicy": "highest_card"}}',
+    '{"turnTimer": "fast"}',
+    '[1, 2, 3]'
+  ] LOOP
+    UPDATE lobbies SET rules = v_rules::JSONB WHERE code = 'RULES1';
+    PERFORM tests.throws(
+      $sql$ SELECT start_game(tests.lobby_id('RULES1')) $sql$,
+      'P0001',
+      format('rules %s are refused', v_rules),
+      'Invalid rules: %'
+    );
+  END LOOP;
+
+  ASSERT (SELECT status FROM lobbies WHERE code = 'RULES1') = 'waiting',
+    'a refused start leaves the lobby waiting';
+END $$;
+
+-- Rules that can't be dealt to this many players are refused too
+DO $$
+BEGIN
+  UPDATE lobbies SET rules = '{"deckSize": 10, "rowCount": 4, "maxRowLength": 5}'
+   WHERE code = 'RULES1';
+  PERFORM tests.throws(
+    $sql$ SELECT start_game(tests.lobby_id('RULES1')) $sql$,
+    'P0001',
+    'a deck too small for the table is refused',
+    'Not enough cards%'
+  );
+END $$;
+
+-- Setting part of the turn timer keeps the defaults for the rest
+UPDATE lobbies SET rules = '{"targetScore": 33, "turnTimer": {"revealSeconds": 3}}'
+ WHERE code = 'RULES1';
+SELECT start_game(tests.lobby_id('RULES1'));
+
+DO $$
+DECLARE
+  v_state JSONB := (SELECT game_state FROM lobbies WHERE code = 'RULES1');
+BEGIN
+  ASSERT v_state->'rules'->>'targetScore' = '33', 'the lobby''s own rules are kept';
+  ASSERT v_state->'rules'->'turnTimer' = '{
+    "selectionSeconds": 60,
+    "rowSelectionSeconds": 30,
+    "revealSeconds": 3,
+    "cardPolicy": "lowest_card",
+    "rowPolicy": "cheapest_row"
+  }'::JSONB, 'the turn timer settings left out are filled in from the defaults';
+  ASSERT jsonb_typeof(v_state->'turnDeadline') = 'string', 'the selection timer runs';
+  ASSERT jsonb_array_length(v_state->'tableRows') = 4, 'the rows are dealt';
+END $$;
@@ -0,0 +1,75 @@
+-- The seat limit holds however a seat is taken: through join_lobby, as a bot the host
+-- adds, or by the host lowering the limit. Alice hosts a lobby of three with a bot.
+
+SELECT tests.sign_in('alice');
+INSERT INTO lobbies (code, host_id) VALUES ('SEATS1', tests.user_id('alice'));
+INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready)
+VALUES (tests.lobby_id('SEATS1'), tests.user_id('alice'), 'Alice', true);
+UPDATE lobbies SET max_players = 3 WHERE code = 'SEATS1';
+INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready, is_bot, bot_difficulty)
+VALUES (tests.lobby_id('SEATS1'), 'bot_1', 'Botty', true, true, 'greedy');
+
+SELECT tests.sign_in('bob');
+SELECT join_lobby(tests.lobby_id('SEATS1'), 'Bob');
+
+-- The limit can't go below the seats already taken
+SELECT tests.sign_in('alice');
+DO $$
+BEGIN
+  PERFORM tests.throws($sql$
+    UPDATE lobbies SET max_players = 2, is_public = true WHERE code = 'SEATS1'
+  $sql$, 'P0001', 'the host cannot lower the limit below the seats taken', '%already has 3%');
+  ASSERT NOT (SELECT is_public FROM lobbies WHERE code = 'SEATS1'),
+    'a refused settings change changes nothing';
+END $$;
+
+-- The lobby is full: no more bots, and no more players
+DO $$
+BEGIN
+  PERFORM tests.throws($sql$
+    INSERT INTO lobby_players (lobby_id, player_id, nickname, is_bot, bot_difficulty)
+    VALUES (tests.lobby_id('SEATS1'), 'bot_2', 'Extra', true, 'random')
+  $sql$, 'P0001', 'the host cannot add a bot past the limit', 'This lobby is full%');
+  ASSERT tests.row_count($sql$
+    UPDATE lobbies SET max_players = 3 WHERE code = 'SEATS1'
+  $sql$) = 1, 'the host can keep the limit at the seats taken';
+END $$;
+
+SELECT tests.sign_in('carol');
+DO $$
+BEGIN
+  PERFORM tests.throws($sql$
+    SELECT join_lobby(tests.lobby_id('SEATS1'), 'Carol')
+  $sql$, 'P0001', 'nobody joins a full lobby', 'This lobby is full%');
+END $$;
+
+-- Raising the limit makes room again
+SELECT tests.sign_in('alice');
+UPDATE lobbies SET max_players = 4 WHERE code = 'SEATS1';
+INSERT INTO lobby_players (lobby_id, player_id, nickname, is_ready, is_bot, bot_difficulty)
+VALUES (tests.lobby_id('SEATS1'), 'bot_2', 'Extra', true, true, 'random');
+
+DO $$
+BEGIN
+  ASSERT (SELECT COUNT(*) FROM lobby_players WHERE lobby_id = tests.lobby_id('SEATS1')) = 4,
+    'the host can add a bot once there is room';
+END $$;
+
+-- create_lobby opens a lobby with its host already in the first seat, or opens nothing
+SELECT tests.sign_in('dave');
+SELECT create_lobby('DAVE01', 'Dave', '{"targetScore": 33}', true);
+
+DO $$
+BEGIN
+  ASSERT (SELECT host_id FROM lobbies WHERE code = 'DAVE01') = tests.user_id('dave')::TEXT,
+    'the player who creates a lobby hosts it';
+  ASSERT (SELECT is_ready FROM lobby_players WHERE lobby_id = tests.lobby_id('DAVE01')),
+    'the host is seated and ready';
+  PERFORM tests.throws($sql$
+    SELECT create_lobby('DAVE02', 'A nickname far too long')
+  $sql$, '22001', 'a seat the host cannot take fails the whole call');
+  ASSERT tests.lobby_id('DAVE02') IS NULL, 'no lobby is left behind without its host';
+  PERFORM tests.throws($sql$
+    SELECT create_lobby('SEATS1', 'Dave')
+  $sql$, '23505', 'a lobby code in use cannot be taken');
+END $$;
@@ -0,0 +1,92 @@
+-- Supabase stand-ins for running supabase-schema.sql on a plain Postgres
+-- Loaded before the schema by scripts/test-sql.ts; none of this goes to a real project.
+
+-- The roles a Supabase project's clients run as
+CREATE ROLE anon NOLOGIN;
+CREATE ROLE authenticated NOLOGIN;
+
+-- auth.uid(): the signed-in user, read from the request's JWT claims
+CREATE SCHEMA auth;
+CREATE FUNCTION auth.uid()
+RETURNS UUID AS $$
+  SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID;
+$$ LANGUAGE sql STABLE;
+GRANT USAGE ON SCHEMA auth TO anon, authenticated;
+
+-- The publication Supabase Realtime streams changes from
+CREATE PUBLICATION supabase_realtime;
+
+-- Supabase gives clients every privilege on new tables and functions by default;
+-- the schema's REVOKEs and GRANTs narrow that down
+GRANT USAGE ON SCHEMA public TO anon, authenticated;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON FUNCTIONS TO anon, authenticated;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated;
+
+-- Test helpers
+CREATE SCHEMA tests;
+GRANT USAGE ON SCHEMA tests TO anon, authenticated;
+
+-- A stable user ID for a test user's name (e.g. tests.user_id('alice'))
+CREATE FUNCTION tests.user_id(p_name TEXT)
+RETURNS UUID AS $$
+  SELECT md5(p_name)::UUID;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A lobby's ID from its code (plpgsql, as the lobbies table comes later with the schema)
+CREATE FUNCTION tests.lobby_id(p_code TEXT)
+RETURNS UUID AS $$
+BEGIN
+  RETURN (SELECT id FROM public.lobbies WHERE code = p_code);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Run what follows as a signed-in client, or (with NULL) as the server again
+CREATE FUNCTION tests.sign_in(p_name TEXT)
+RETURNS void AS $$
+BEGIN
+  PERFORM set_config('request.jwt.claim.sub', COALESCE(tests.user_id(p_name)::TEXT, ''), false);
+  IF p_name IS NULL THEN
+    RESET ROLE;
+  ELSE
+    SET ROLE authenticated;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Run a statement that must fail with this SQLSTATE (e.g. 42501 for a missing privilege,
+-- P0001 for a RAISE EXCEPTION in a game function), and a message LIKE p_message if given
+CREATE FUNCTION tests.throws(
+  p_sql TEXT,
+  p_sqlstate TEXT,
+  p_description TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  BEGIN
+    EXECUTE p_sql;
+  EXCEPTION WHEN OTHERS THEN
+    IF SQLSTATE <> p_sqlstate OR SQLERRM NOT LIKE COALESCE(p_message, '%') THEN
+      RAISE EXCEPTION '%: expected error % (%), got % (%)',
+        p_description, p_sqlstate, COALESCE(p_message, 'any message'), SQLSTATE, SQLERRM;
+    END IF;
+    RETURN;
+  END;
+  RAISE EXCEPTION '%: expected error %, but it succeeded', p_description, p_sqlstate;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Run a statement and return how many rows it changed (0 when policies hide every row)
+CREATE FUNCTION tests.row_count(p_sql TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  EXECUTE p_sql;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON ALL FUNCTIONS IN SCHEMA tests TO anon, authenticated;